@@ -1,6 +1,13 @@
 // components/AvatarWidget.tsx
-import React, { useEffect, useRef, useState } from "react";
-import { motion, useAnimation } from "framer-motion";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  MotionConfig,
+  motion,
+  useAnimation,
+  useMotionValue,
+  useReducedMotion,
+  useTransform,
+} from "framer-motion";
 import {
   Mic2,
   Keyboard,
@@ -8,282 +15,1522 @@ import {
   VolumeX,
   MessageSquare,
   X as XIcon,
+  ShoppingCart,
+  RotateCcw,
+  Headphones,
+  ImagePlus,
+  Camera,
 } from "lucide-react";
+import {
+  CHAT_ENDPOINT,
+  ChatRequest,
+  ChatResponse,
+  RecommendedProduct,
+  ActionStatus,
+  MessageAttachment,
+  TranscriptMessage,
+  createMessage,
+  messageImages,
+  messageProducts,
+  messageSuggestions,
+  toChatHistory,
+} from "../lib/chat";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  AttachmentError,
+  AttachmentErrorCode,
+  MAX_IMAGES_PER_MESSAGE,
+  MAX_SOURCE_IMAGE_BYTES,
+  PreparedImage,
+  imageFiles,
+  prepareImage,
+} from "../lib/attachments";
+import { describeAction, needsConfirmation, runAction } from "../lib/chatActions";
+import { clearThemeCartCache, collectPageContext, detectPageContext } from "../lib/pageContext";
+import {
+  EngagementHistoryStore,
+  EngagementRule,
+  createEngagementHistory,
+  startEngagement,
+} from "../lib/engagement";
+import {
+  EVENTS_ENDPOINT,
+  MessageInput,
+  callbackSink,
+  createBeaconSink,
+  createEventBus,
+  windowSink,
+} from "../lib/analytics";
+import { formatPrice, productUrl } from "../lib/products";
+import { markdownToPlainText } from "../lib/markdown";
+import Markdown from "./Markdown";
+import MascotRenderer from "./MascotRenderer";
+import { ChatClientError, ChatErrorKind, createChatClient } from "../lib/chatClient";
+import { ADD_TO_CART_ENDPOINT, Cart, addToThemeCart, fetchThemeCart, isShopifyStorefront } from "../lib/cart";
+import {
+  AvatarWidgetConfig,
+  DEFAULT_POSITION,
+  cornerOffset,
+  edgeOffset,
+  isLeft,
+  isTop,
+  resolveApiUrl,
+} from "../lib/widgetConfig";
+import { ColorScheme, resolveTheme, themeVars, useMediaQuery } from "../lib/theme";
+import {
+  DEFAULT_SESSION_IDLE_MINUTES,
+  SessionChannel,
+  SessionState,
+  createSessionId,
+  isExpired,
+  loadSession,
+  newSession,
+  openSessionChannel,
+  saveSession,
+} from "../lib/session";
+import { createMockFetch, getMockScenario, scenarioFromLocation } from "../lib/mockBackend";
+import {
+  Mascot,
+  MascotManifest,
+  filterMascots,
+  getBundledManifest,
+  loadMascotManifest,
+  posterFor,
+  posterSrcSet,
+} from "../lib/mascots";
+import { fetchShopConfig, mergeWidgetConfig } from "../lib/shopConfig";
+import {
+  MASCOT_VARIANTS,
+  REDUCED_MOTION_VARIANTS,
+  useMascotAnimation,
+} from "../lib/mascotAnimation";
+import { LipSync, createLipSync } from "../lib/lipSync";
+import { captionAt, useDialogFocus } from "../lib/a11y";
+import {
+  VoiceConversation,
+  VoiceErrorCode,
+  createVoiceConversation,
+  isEcho,
+} from "../lib/voiceConversation";
+import {
+  LOCALES,
+  MessageKey,
+  browserLanguages,
+  createTranslator,
+  getLocaleInfo,
+  resolveLocale,
+} from "../lib/i18n";
+import {
+  ChoreographyContext,
+  DEFAULT_IDLE_SECONDS,
+  avoidRects,
+  fitPath,
+  keyframeTimes,
+  pathForContext,
+} from "../lib/choreography";
+import { createSpeechQueue, loadVoices, pickVoice, speechChunks } from "../lib/speech";
+import { fetchSpeechUrl } from "../lib/tts";
+import {
+  HANDOFF_POLL_MS,
+  HandoffRequestError,
+  HandoffState,
+  HandoffTrigger,
+  HandoffUpdate,
+  createHandoffClient,
+} from "../lib/handoff";
 
 /**
  * AvatarWidget.tsx — copy-paste ready
  *
- * Uses public URLs (no local assets required):
+ * Mascots come from a manifest (see lib/mascots.ts). The bundled
+ * data/mascot-manifest.json uses public URLs, so no local assets are required:
  * - Poster images: picsum.photos (seeded so each mascot looks different)
  * - Video (idle & walk): sample-videos.com Big Buck Bunny MP4 (public)
  *
  * Drop this file into components/AvatarWidget.tsx and it should work immediately.
  */
 
-const SAMPLE_VIDEO =
-  "https://sample-videos.com/video123/mp4/480/big_buck_bunny_480p_5mb.mp4";
-
-// 5 mascots with direct public URLs (poster + mp4 as idle & walk)
-const MASCOT_ASSETS = [
-  {
-    id: "mascot-1",
-    title: "Potato Pal",
-    poster: "https://picsum.photos/seed/potato/400/400",
-    video: SAMPLE_VIDEO,
-    idleVideo: SAMPLE_VIDEO,
-    walkDistance: 700,
-  },
-  {
-    id: "mascot-2",
-    title: "Pizza Dude",
-    poster: "https://picsum.photos/seed/pizza/400/400",
-    video: SAMPLE_VIDEO,
-    idleVideo: SAMPLE_VIDEO,
-    walkDistance: 700,
-  },
-  {
-    id: "mascot-3",
-    title: "Turtle Bro",
-    poster: "https://picsum.photos/seed/turtle/400/400",
-    video: SAMPLE_VIDEO,
-    idleVideo: SAMPLE_VIDEO,
-    walkDistance: 700,
-  },
-  {
-    id: "mascot-4",
-    title: "Foxy Friend",
-    poster: "https://picsum.photos/seed/fox/400/400",
-    video: SAMPLE_VIDEO,
-    idleVideo: SAMPLE_VIDEO,
-    walkDistance: 700,
-  },
-  {
-    id: "mascot-5",
-    title: "Robo Pal",
-    poster: "https://picsum.photos/seed/robot/400/400",
-    video: SAMPLE_VIDEO,
-    idleVideo: SAMPLE_VIDEO,
-    walkDistance: 700,
-  },
-] as const;
-
-type Mascot = typeof MASCOT_ASSETS[number];
-
-type ChatResponse = {
-  text: string;
-  speech_url?: string;
-  avatar_video_url?: string;
-  recommended_products?: Array<{
-    id: number | string;
-    title: string;
-    price?: string;
-    handle?: string;
-    variant_id?: number;
-  }>;
-  expression?: string;
+const isBrowser = typeof window !== "undefined";
+
+/** Resolves once a playing media element ends, is paused or fails. */
+function untilMediaStops(el: HTMLMediaElement): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      el.removeEventListener("ended", done);
+      el.removeEventListener("pause", done);
+      el.removeEventListener("error", done);
+      resolve();
+    };
+    el.addEventListener("ended", done);
+    el.addEventListener("pause", done);
+    el.addEventListener("error", done);
+  });
+}
+
+function reportManifestErrors(errors: string[]) {
+  if (errors.length) console.warn("mascot manifest problems:\n- " + errors.join("\n- "));
+}
+
+// validated once per page load; remote manifests replace it in state
+const BUNDLED_MANIFEST: MascotManifest = (() => {
+  const { manifest, errors } = getBundledManifest();
+  reportManifestErrors(errors);
+  return manifest;
+})();
+
+// what the shopper is told for each kind of chat failure
+const CHAT_ERROR_MESSAGES: Record<Exclude<ChatErrorKind, "aborted">, MessageKey> = {
+  network: "errorNetwork",
+  timeout: "errorTimeout",
+  auth: "errorAuth",
+  rate_limit: "errorRateLimit",
+  server: "errorServer",
+  attachment: "errorAttachment",
+  invalid_response: "errorInvalid",
 };
 
-const isBrowser = typeof window !== "undefined";
+const VOICE_ERROR_MESSAGES: Record<VoiceErrorCode, MessageKey> = {
+  unsupported: "speechUnsupported",
+  "not-allowed": "voiceNotAllowed",
+  "no-speech": "voiceNoSpeech",
+  "audio-capture": "voiceNoMic",
+  network: "voiceNetwork",
+  unknown: "voiceError",
+};
+
+const ATTACHMENT_ERROR_MESSAGES: Record<AttachmentErrorCode, MessageKey> = {
+  type: "imageTypeError",
+  size: "imageSizeError",
+  count: "imageCountError",
+  unreadable: "imageReadError",
+};
+
+type SendMessageOptions = {
+  /** Failed message being resent; it is replaced by the new one. */
+  resendId?: string;
+  input?: MessageInput;
+  /** Photos sent with the message; it may then have no text. */
+  images?: PreparedImage[];
+};
+
+// interim words needed before the shopper's voice interrupts a reply
+const BARGE_IN_MIN_WORDS = 2;
+
+const PICKER_THUMB_SIZE = 36;
+
+const ATTACHMENT_THUMB_SIZE = 56;
+
+// idle fidgets per page view, so the mascot doesn't nag
+const MAX_IDLE_FIDGETS = 3;
+
+const AT_HOME = { x: 0, y: 0, rotate: 0, scale: 1 };
+
+// at most one "shopper is typing" ping to the agent per this many ms
+const TYPING_PING_MS = 2000;
+
+const NOOP = () => {};
+
+/* Photo buttons next to the composer */
+const ICON_BUTTON: React.CSSProperties = {
+  border: "1px solid var(--aw-border)",
+  background: "transparent",
+  borderRadius: "var(--aw-radius)",
+  padding: 8,
+  cursor: "pointer",
+  display: "flex",
+  color: "var(--aw-text)",
+};
+
+/* Off screen but still read by screen readers */
+const VISUALLY_HIDDEN: React.CSSProperties = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+  border: 0,
+};
+
+export type AvatarWidgetProps = AvatarWidgetConfig;
+
+/**
+ * Loads the shop's saved config (admin page, /api/widget-config) before the
+ * widget mounts; props set by the host page win over it.
+ */
+export default function AvatarWidget(props: AvatarWidgetProps = {}): JSX.Element | null {
+  const { remoteConfig = true } = props;
+  const shop = props.shop ?? (process.env.NEXT_PUBLIC_SHOP || undefined);
+  const [stored, setStored] = useState<AvatarWidgetConfig | null>(remoteConfig ? null : {});
+
+  useEffect(() => {
+    if (!remoteConfig) return;
+    let cancelled = false;
+    fetchShopConfig(shop, props.apiEndpoint).then((config) => {
+      if (!cancelled) setStored(config);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [remoteConfig, shop, props.apiEndpoint]);
+
+  if (!stored) return null;
+  return <AvatarWidgetView {...mergeWidgetConfig(props, remoteConfig ? stored : {})} />;
+}
+
+function AvatarWidgetView({
+  shop = process.env.NEXT_PUBLIC_SHOP || undefined,
+  apiEndpoint = CHAT_ENDPOINT,
+  defaultMascotId,
+  position = DEFAULT_POSITION,
+  sessionIdleMinutes = Number(process.env.NEXT_PUBLIC_SESSION_IDLE_MINUTES) ||
+    DEFAULT_SESSION_IDLE_MINUTES,
+  mascotManifestUrl = process.env.NEXT_PUBLIC_MASCOT_MANIFEST_URL || undefined,
+  locale: shopLocale = process.env.NEXT_PUBLIC_LOCALE || undefined,
+  onEvent,
+  analytics = process.env.NEXT_PUBLIC_ANALYTICS !== "false",
+  analyticsIncludeText = process.env.NEXT_PUBLIC_ANALYTICS_INCLUDE_TEXT === "true",
+  theme: themeConfig,
+  mascotIds,
+  greeting,
+  voiceInput = true,
+  imageInput = true,
+  voiceOutput = true,
+  serverTts = process.env.NEXT_PUBLIC_SERVER_TTS === "true",
+  handoff: handoffEnabled = process.env.NEXT_PUBLIC_HANDOFF === "true",
+  mockMode: mockModeConfig,
+  mockScenario: mockScenarioName,
+  engagementRules,
+  avoidSelector = process.env.NEXT_PUBLIC_AVOID_SELECTOR || undefined,
+}: AvatarWidgetProps): JSX.Element {
+  const [manifestMascots, setMascots] = useState<Mascot[]>(BUNDLED_MANIFEST.mascots);
+  // the merchant may offer only some of the manifest's mascots
+  const mascots = useMemo(() => filterMascots(manifestMascots, mascotIds), [manifestMascots, mascotIds]);
+
+  // restored conversation (or a fresh one) — read once on mount
+  const [initialSession] = useState<SessionState>(() => {
+    const restored = isBrowser ? loadSession(shop, sessionIdleMinutes) : null;
+    const defaultId = defaultMascotId ?? BUNDLED_MANIFEST.defaultMascotId;
+    const defaultIndex = filterMascots(BUNDLED_MANIFEST.mascots, mascotIds).findIndex(
+      (m) => m.id === defaultId
+    );
+    return restored ?? newSession({ selectedMascotIndex: Math.max(0, defaultIndex) });
+  });
+
+  // theme: preset from shop config, overridden by the host's theme prop
+  const theme = useMemo(
+    () =>
+      resolveTheme({
+        ...themeConfig,
+        preset: themeConfig?.preset ?? (process.env.NEXT_PUBLIC_THEME || undefined),
+        colorScheme:
+          themeConfig?.colorScheme ?? ((process.env.NEXT_PUBLIC_COLOR_SCHEME as ColorScheme) || undefined),
+      }),
+    [themeConfig]
+  );
+  const prefersDark = useMediaQuery("(prefers-color-scheme: dark)");
+  const dark = theme.colorScheme === "dark" || (theme.colorScheme === "auto" && prefersDark);
+  const isMobile = useMediaQuery(`(max-width: ${theme.mobileBreakpoint - 1}px)`);
+  const fullscreenDialog = isMobile && theme.mobileFullscreen;
 
-export default function AvatarWidget(): JSX.Element {
   // UI state
-  const [open, setOpen] = useState(false);
+  const [sessionId, setSessionId] = useState(initialSession.id);
+  const [open, setOpen] = useState(initialSession.open);
   const [listening, setListening] = useState(false);
-  const [muted, setMuted] = useState(false);
-  const [history, setHistory] = useState<Array<{ role: string; content: string }>>(
-    []
+  const [voiceError, setVoiceError] = useState<VoiceErrorCode | null>(null);
+  const [muted, setMuted] = useState(initialSession.muted);
+  const [history, setHistory] = useState<TranscriptMessage[]>(initialSession.history);
+  const [lastReply, setLastReply] = useState<ChatResponse | null>(initialSession.lastReply);
+  // text for the screen-reader live region: finished assistant replies only
+  const [announcement, setAnnouncement] = useState("");
+  // visible captions of what is being spoken, null when nothing plays
+  const [caption, setCaption] = useState<string | null>(null);
+  // engagement rule that fired and is still showing its greeting or prompts
+  const [proactive, setProactive] = useState<EngagementRule | null>(null);
+  const greetingRule = proactive?.action === "greet" ? proactive : null;
+  // conversation handed over to a person (lib/handoff.ts)
+  const [handoff, setHandoff] = useState<HandoffState | null>(initialSession.handoff ?? null);
+  const [handoffPending, setHandoffPending] = useState(false);
+  const [agentTyping, setAgentTyping] = useState(false);
+  // photos waiting in the composer (lib/attachments.ts)
+  const [pendingImages, setPendingImages] = useState<PreparedImage[]>([]);
+  const [preparingImages, setPreparingImages] = useState(0);
+  const [attachError, setAttachError] = useState<AttachmentErrorCode | null>(null);
+  const [dragging, setDragging] = useState(false);
+  // a person can't see photos, so there are none while they have the chat
+  const attachEnabled = imageInput && !handoff;
+  const [selectedMascotIndex, setSelectedMascotIndex] = useState(() =>
+    Math.min(initialSession.selectedMascotIndex, BUNDLED_MANIFEST.mascots.length - 1)
+  );
+  const [locale, setLocale] = useState(
+    () => initialSession.locale ?? resolveLocale([shopLocale, ...browserLanguages()])
+  );
+  const localeInfo = getLocaleInfo(locale);
+  const t = useMemo(() => createTranslator(locale), [locale]);
+  // ?mockScenario=<name> on the page turns mock mode on with that scenario
+  const [mockMode] = useState(
+    () => (mockModeConfig ?? process.env.NEXT_PUBLIC_MOCK_MODE === "true") || !!scenarioFromLocation()
   );
-  const [lastReply, setLastReply] = useState<ChatResponse | null>(null);
-  const [selectedMascotIndex, setSelectedMascotIndex] = useState(0);
-  const [mockMode] = useState(!process.env.NEXT_PUBLIC_API_URL);
-  const [isWalking, setIsWalking] = useState(false);
+  const [mockScenario] = useState(() =>
+    getMockScenario(
+      scenarioFromLocation() || mockScenarioName || process.env.NEXT_PUBLIC_MOCK_SCENARIO
+    )
+  );
+  const [streaming] = useState(process.env.NEXT_PUBLIC_CHAT_STREAMING !== "false");
+  const chatClient = useMemo(
+    () =>
+      createChatClient({
+        endpoint: apiEndpoint,
+        // scenario fixtures answer locally, through the same client
+        fetchImpl: mockMode ? createMockFetch(mockScenario) : undefined,
+      }),
+    [apiEndpoint, mockMode, mockScenario]
+  );
+  const handoffClient = useMemo(() => createHandoffClient(apiEndpoint), [apiEndpoint]);
+  const [cart, setCart] = useState<Cart | null>(initialSession.cart ?? null);
+  // add-to-cart button state per card, keyed by `${messageId}:${productId}`
+  const [addStatus, setAddStatus] = useState<
+    Record<string, { state: "loading" | "added" | "error"; error?: string }>
+  >({});
 
   // animation & refs
   const controls = useAnimation();
+  // the fixed container: where the mascot sits at rest
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const stopChoreographyRef = useRef<() => void>(NOOP);
+  const choreographRef = useRef<(context: ChoreographyContext) => Promise<boolean>>(() => Promise.resolve(false));
+  const reduceMotion = useReducedMotion() ?? false;
+  const debugMascot = process.env.NEXT_PUBLIC_DEBUG_MASCOT === "true";
+  const mascotAnim = useMascotAnimation(debugMascot);
+  // lip sync: 0..1 mouth level, fed by lib/lipSync while a reply is spoken
+  const mouthLevel = useMotionValue(0);
+  const mouthScaleY = useTransform(mouthLevel, [0, 1], [0.15, 1]);
+  const mouthOpacity = useTransform(mouthLevel, [0, 0.05, 1], [0, 0.75, 0.9]);
+  const talkScale = useTransform(mouthLevel, [0, 1], [1, 1.05]);
+  const talkGlow = useTransform(
+    mouthLevel,
+    (v) =>
+      `drop-shadow(0 0 ${4 + v * 14}px color-mix(in srgb, var(--aw-primary) ${Math.round(
+        15 + v * 50
+      )}%, transparent))`
+  );
+  const lipSyncRef = useRef<LipSync | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const fallbackAudioRef = useRef<HTMLAudioElement | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
-  const recognitionRef = useRef<any>(null);
+  const voiceRef = useRef<VoiceConversation | null>(null);
+  // plain text of the reply being spoken, or null when nothing is playing
+  const speakingRef = useRef<string | null>(null);
+  // replies are spoken one after another, never over each other
+  const speechQueue = useMemo(() => createSpeechQueue(), []);
   const composerRef = useRef<HTMLInputElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const cameraInputRef = useRef<HTMLInputElement | null>(null);
+  // full-size photos of sent messages, kept so a failed one can be resent
+  const sentImagesRef = useRef(new Map<string, PreparedImage[]>());
+  const dialogRef = useRef<HTMLDivElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const sendRef = useRef<(message: string, opts?: SendMessageOptions) => void>(() => {});
+  const channelRef = useRef<SessionChannel | null>(null);
+  const remoteUpdateRef = useRef(false);
+  const updatedAtRef = useRef(initialSession.updatedAt);
+  const handoffRef = useRef(handoff);
+  handoffRef.current = handoff;
+  const applyHandoffRef = useRef<(update: HandoffUpdate | null) => void>(NOOP);
+  const typingSentRef = useRef(0);
 
-  const selectedMascot: Mascot = MASCOT_ASSETS[selectedMascotIndex];
+  const activeMascotIndex = Math.min(selectedMascotIndex, mascots.length - 1);
+  const selectedMascot: Mascot = mascots[activeMascotIndex];
 
-  /* Speech recognition setup */
+  // analytics: stamped with the current session at emit time
+  const sessionIdRef = useRef(sessionId);
+  sessionIdRef.current = sessionId;
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const [bus] = useState(() =>
+    createEventBus({
+      envelope: () => ({ sessionId: sessionIdRef.current, shop }),
+      includeText: analyticsIncludeText,
+    })
+  );
+  const impressionsRef = useRef(new Set<string>());
+  // product cards waiting to be seen, by `${messageId}:${productId}`
+  const impressionCardsRef = useRef(new Map<string, HTMLElement>());
+  const impressionObserverRef = useRef<IntersectionObserver | null>(null);
+  const openedRef = useRef(open);
+
+  /* Analytics sinks: window listeners, the onEvent prop and /api/events */
   useEffect(() => {
     if (!isBrowser) return;
-    const SpeechRecognition =
-      (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (!SpeechRecognition) {
-      recognitionRef.current = null;
-      return;
+    const removers = [
+      bus.addSink(windowSink),
+      bus.addSink(callbackSink((event) => onEventRef.current?.(event))),
+    ];
+    if (analytics) {
+      removers.push(bus.addSink(createBeaconSink(resolveApiUrl(EVENTS_ENDPOINT, apiEndpoint))));
     }
-    const rec = new SpeechRecognition();
-    rec.continuous = false;
-    rec.interimResults = false;
-    rec.lang = "en-US";
-    rec.onresult = (evt: any) => {
-      const transcript = evt.results[0][0].transcript;
-      handleSendMessage(transcript);
-    };
-    rec.onend = () => {
-      setListening(false);
+    return () => removers.forEach((remove) => remove());
+  }, [bus, analytics, apiEndpoint]);
+
+  /* Analytics: dialog opened / closed */
+  useEffect(() => {
+    if (openedRef.current === open) return;
+    openedRef.current = open;
+    bus.emit(open ? "widget_open" : "widget_close", {});
+  }, [open, bus]);
+
+  /* Analytics: product cards the shopper has seen (once per card, when half of it is in view) */
+  useEffect(() => {
+    if (!open || typeof IntersectionObserver === "undefined") return;
+    const cards = impressionCardsRef.current;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (!entry.isIntersecting) continue;
+          const el = entry.target as HTMLElement;
+          const key = el.dataset.impressionKey!;
+          observer.unobserve(el);
+          cards.delete(key);
+          if (impressionsRef.current.has(key)) continue;
+          impressionsRef.current.add(key);
+          bus.emit("product_impression", { productId: el.dataset.productId! });
+        }
+      },
+      { threshold: 0.5 }
+    );
+    impressionObserverRef.current = observer;
+    cards.forEach((el) => observer.observe(el));
+    return () => {
+      observer.disconnect();
+      impressionObserverRef.current = null;
     };
-    recognitionRef.current = rec;
+  }, [open, bus]);
+
+  /* Remote mascot manifest (falls back to the bundled one on error) */
+  useEffect(() => {
+    if (!isBrowser || !mascotManifestUrl) return;
+    const controller = new AbortController();
+    loadMascotManifest(mascotManifestUrl, controller.signal)
+      .then(({ manifest, errors }) => {
+        reportManifestErrors(errors);
+        setMascots(manifest.mascots);
+        // a restored session keeps its pick; otherwise honour the manifest default
+        const offered = filterMascots(manifest.mascots, mascotIds);
+        const defaultId = defaultMascotId ?? manifest.defaultMascotId;
+        const defaultIndex = offered.findIndex((m) => m.id === defaultId);
+        setSelectedMascotIndex((i) =>
+          history.length === 0 && defaultIndex >= 0 ? defaultIndex : Math.min(i, offered.length - 1)
+        );
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error("mascot manifest error", err);
+      });
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mascotManifestUrl]);
 
+  /* Session sync: apply conversations updated in other tabs of this shop */
+  useEffect(() => {
+    if (!isBrowser) return;
+    const channel = openSessionChannel(shop, (remote) => {
+      remoteUpdateRef.current = true;
+      setSessionId(remote.id);
+      setHistory(remote.history);
+      setLastReply(remote.lastReply);
+      setSelectedMascotIndex(remote.selectedMascotIndex);
+      setMuted(remote.muted);
+      setHandoff(remote.handoff ?? null);
+      setCart(remote.cart ?? null);
+      if (remote.locale) setLocale(remote.locale);
+    });
+    channelRef.current = channel;
     return () => {
-      if (recognitionRef.current) {
-        try {
-          recognitionRef.current.stop();
-        } catch {}
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [shop]);
+
+  /* Session persistence (debounced so streamed tokens don't hammer storage) */
+  useEffect(() => {
+    if (!isBrowser) return;
+    const timer = setTimeout(() => {
+      const session: SessionState = {
+        id: sessionId,
+        history,
+        lastReply,
+        selectedMascotIndex,
+        open,
+        muted,
+        locale,
+        handoff,
+        cart,
+        updatedAt: Date.now(),
+      };
+      updatedAtRef.current = session.updatedAt;
+      saveSession(shop, session);
+      if (remoteUpdateRef.current) {
+        // don't echo another tab's update back to it
+        remoteUpdateRef.current = false;
+        return;
       }
+      channelRef.current?.post(session);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [shop, sessionId, history, lastReply, selectedMascotIndex, open, muted, locale, handoff, cart]);
+
+  /* On a Shopify storefront the theme's cart is the truth: pick up what the theme added */
+  useEffect(() => {
+    if (!isShopifyStorefront()) return;
+    let cancelled = false;
+    fetchThemeCart().then((themeCart) => {
+      if (!cancelled && themeCart) setCart(themeCart);
+    });
+    return () => {
+      cancelled = true;
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  /* Play speech url or TTS */
-  async function playSpeech(response: ChatResponse) {
-    if (muted) return;
-    if (!response) return;
-    if (response.speech_url) {
-      if (!audioRef.current) audioRef.current = new Audio();
-      audioRef.current.src = response.speech_url;
-      try {
-        await audioRef.current.play();
-      } catch (e) {
-        speakWithTTS(response.text);
+  /* Lip sync driver */
+  useEffect(() => {
+    if (!isBrowser) return;
+    const lipSync = createLipSync((level) => mouthLevel.set(level));
+    lipSyncRef.current = lipSync;
+    return () => {
+      lipSync.dispose();
+      lipSyncRef.current = null;
+    };
+  }, [mouthLevel]);
+
+  /* Hands-free voice conversation: keeps listening, sends each phrase, barges in */
+  useEffect(() => {
+    if (!isBrowser || !voiceInput) return;
+    const voice = createVoiceConversation(localeInfo.speechLang, {
+      onInterim: (text) => {
+        if (composerRef.current) composerRef.current.value = text;
+        // the shopper talking over the reply stops it; the reply itself
+        // coming back through the speakers doesn't
+        const spoken = speakingRef.current;
+        const words = text.trim().split(/\s+/).filter(Boolean).length;
+        if (spoken !== null && words >= BARGE_IN_MIN_WORDS && !isEcho(text, spoken)) stopSpeech();
+      },
+      onFinal: (text) => {
+        if (speakingRef.current !== null && isEcho(text, speakingRef.current)) return;
+        if (composerRef.current) composerRef.current.value = "";
+        sendRef.current(text, { input: "voice" });
+      },
+      onError: (code) => {
+        setVoiceError(code);
+        bus.emit("voice_error", { code });
+      },
+      onActiveChange: (active) => {
+        setListening(active);
+        mascotAnim.dispatch({ type: active ? "LISTEN" : "STOP_LISTENING" });
+      },
+    });
+    voiceRef.current = voice;
+    return () => {
+      voice.dispose();
+      voiceRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [voiceInput]);
+
+  /* Recognition follows the selected locale */
+  useEffect(() => {
+    voiceRef.current?.setLang(localeInfo.speechLang);
+  }, [localeInfo.speechLang]);
+
+  /* "Didn't catch that" is only a passing hint */
+  useEffect(() => {
+    if (voiceError !== "no-speech") return;
+    const timer = setTimeout(() => setVoiceError(null), 4000);
+    return () => clearTimeout(timer);
+  }, [voiceError]);
+
+  /* Play speech url or TTS; resolves when playback ends or is interrupted */
+  function playSpeech(response: ChatResponse): Promise<void> {
+    if (muted || !voiceOutput) return Promise.resolve();
+    if (!response) return Promise.resolve();
+    return speechQueue.enqueue((signal) => speakReply(response, signal));
+  }
+
+  async function speakReply(response: ChatResponse, signal: AbortSignal) {
+    const lipSync = lipSyncRef.current;
+    const plain = markdownToPlainText(response.text);
+    speakingRef.current = plain;
+    setCaption(plain);
+    try {
+      if (response.speech_url) {
+        if (await playSpeechUrl(response.speech_url)) return;
+        await speakWithTTS(response.text, signal);
+        return;
       }
-      return;
-    }
-    if (response.avatar_video_url && videoRef.current) {
-      try {
-        videoRef.current.src = response.avatar_video_url;
-        await videoRef.current.play();
-      } catch (e) {
-        speakWithTTS(response.text);
+      if (response.avatar_video_url && videoRef.current) {
+        try {
+          videoRef.current.src = response.avatar_video_url;
+          await videoRef.current.play();
+          lipSync?.simulate();
+          await untilMediaStops(videoRef.current);
+        } catch (e) {
+          await speakWithTTS(response.text, signal);
+        }
+        return;
       }
-      return;
+      if (serverTts) {
+        const url = await fetchSpeechUrl(
+          { text: plain, voice: selectedMascot.voice?.serverVoice, lang: localeInfo.speechLang },
+          apiEndpoint,
+          signal
+        );
+        if (signal.aborted) return;
+        if (url && (await playSpeechUrl(url))) return;
+      }
+      await speakWithTTS(response.text, signal);
+    } finally {
+      // a newer reply may already be speaking if this one was interrupted
+      if (!signal.aborted) {
+        speakingRef.current = null;
+        setCaption(null);
+        lipSync?.stop();
+      }
+    }
+  }
+
+  /**
+   * Play reply audio with the analyser driving the mouth. Audio from a host
+   * without CORS headers can't be analysed, so it is retried on a plain
+   * element with simulated lip sync. Returns false if nothing could play.
+   */
+  async function playSpeechUrl(url: string): Promise<boolean> {
+    const lipSync = lipSyncRef.current;
+    const el = audioRef.current ?? new Audio();
+    audioRef.current = el;
+    el.crossOrigin = "anonymous";
+    el.src = url;
+    try {
+      await el.play();
+      if (!lipSync?.trackMedia(el)) lipSync?.simulate();
+      await untilMediaStops(el);
+      return true;
+    } catch {
+      // fall through to the un-analysed retry
+    }
+    const plain = new Audio(url);
+    fallbackAudioRef.current = plain;
+    try {
+      await plain.play();
+      lipSync?.simulate();
+      await untilMediaStops(plain);
+      return true;
+    } catch {
+      return false;
+    } finally {
+      fallbackAudioRef.current = null;
     }
-    speakWithTTS(response.text);
   }
 
-  function speakWithTTS(text?: string) {
+  /* Speak with the mascot's browser voice, a sentence or so at a time */
+  async function speakWithTTS(text: string | undefined, signal: AbortSignal): Promise<void> {
     if (!isBrowser) return;
     if (!text) return;
     const synth = window.speechSynthesis;
     if (!synth) return;
-    const utter = new SpeechSynthesisUtterance(text);
-    utter.lang = "en-US";
-    synth.speak(utter);
-  }
-
-  /* Fetch chat (mock or real) */
-  async function fetchChat(payload: {
-    shop?: string;
-    message: string;
-    history?: any;
-    mascotId?: string;
-  }): Promise<ChatResponse> {
-    if (mockMode) {
-      await new Promise((r) => setTimeout(r, 450));
-      return {
-        text: `Demo reply to "${payload.message}" (mock mode).`,
-        speech_url: undefined,
-        avatar_video_url: undefined,
-        recommended_products: [
-          {
-            id: "demo-1",
-            title: "Demo Product",
-            price: "$9.99",
-            handle: "demo-product",
-            variant_id: 111,
-          },
-        ],
-        expression: "happy",
-      };
+    const profile = selectedMascot.voice;
+    // the mascot's own voice language only applies when it matches the locale
+    const lang = profile?.lang?.toLowerCase().startsWith(localeInfo.code) ? profile.lang : localeInfo.speechLang;
+    const voice = pickVoice(await loadVoices(), profile, localeInfo);
+    for (const chunk of speechChunks(markdownToPlainText(text))) {
+      if (signal.aborted) return;
+      const utter = new SpeechSynthesisUtterance(chunk);
+      utter.lang = lang;
+      if (voice) utter.voice = voice;
+      if (profile?.pitch != null) utter.pitch = profile.pitch;
+      if (profile?.rate != null) utter.rate = profile.rate;
+      if (profile?.volume != null) utter.volume = profile.volume;
+      lipSyncRef.current?.trackUtterance(utter);
+      // captions follow the sentence being spoken
+      utter.addEventListener("boundary", (e) => setCaption(captionAt(chunk, e.charIndex)));
+      await new Promise<void>((resolve) => {
+        utter.onend = () => resolve();
+        utter.onerror = () => resolve();
+        synth.speak(utter);
+      });
     }
+  }
 
-    try {
-      const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/chat`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(process.env.NEXT_PUBLIC_API_KEY
-            ? { "x-api-key": process.env.NEXT_PUBLIC_API_KEY }
-            : {}),
-        },
-        body: JSON.stringify({
-          shop: process.env.NEXT_PUBLIC_SHOP || undefined,
-          message: payload.message,
-          history: payload.history || [],
-          mascotId: payload.mascotId,
-        }),
-      });
+  /* Stop any reply audio / TTS that is still playing */
+  function stopSpeech() {
+    speechQueue.clear();
+    speakingRef.current = null;
+    setCaption(null);
+    audioRef.current?.pause();
+    fallbackAudioRef.current?.pause();
+    videoRef.current?.pause();
+    if (isBrowser) window.speechSynthesis?.cancel();
+    lipSyncRef.current?.stop();
+  }
 
-      if (!res.ok) {
-        throw new Error(`Chat API error ${res.status}`);
-      }
-      const json = (await res.json()) as ChatResponse;
-      return json;
-    } catch (err) {
-      console.error("chat fetch error", err);
-      return {
-        text:
-          "Sorry, I couldn't reach the server. Running in demo mode. Please check your NEXT_PUBLIC_API_URL.",
-      };
+  /* Send one message through the chat client, streaming tokens through onToken */
+  function fetchChat(
+    payload: ChatRequest,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatResponse> {
+    return chatClient.send({ shop, ...payload, stream: streaming }, { onToken, signal });
+  }
+
+  /* Cancel the in-flight reply (new message sent or dialog closed) */
+  function cancelReply() {
+    if (abortRef.current) {
+      abortRef.current.abort();
+      abortRef.current = null;
+      mascotAnim.dispatch({ type: "RESET" });
     }
+    stopSpeech();
+  }
+
+  /* Patch one transcript message by id */
+  function updateMessage(id: string, patch: Partial<TranscriptMessage>) {
+    setHistory((h) => h.map((m) => (m.id === id ? { ...m, ...patch } : m)));
   }
 
-  /* Handle send message */
-  async function handleSendMessage(message: string) {
-    if (!message || message.trim() === "") return;
-    const newHistory = [...history, { role: "user", content: message }];
+  /* Handle send message; resending a failed message moves it to the end */
+  async function handleSendMessage(
+    message: string,
+    { resendId, input = "text", images = [] }: SendMessageOptions = {}
+  ) {
+    if (message.trim() === "" && (handoff || !images.length)) return;
+    if (handoff) return sendToAgent(message, { resendId, input });
+    cancelReply();
+    setProactive(null);
+    bus.emit("message_sent", {
+      input,
+      length: message.length,
+      images: images.length,
+      resend: !!resendId,
+      text: message,
+    });
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // idle for too long: this message starts a new conversation
+    let baseHistory = history.filter((m) => m.id !== resendId);
+    let currentSessionId = sessionId;
+    if (isExpired({ updatedAt: updatedAtRef.current }, sessionIdleMinutes)) {
+      baseHistory = [];
+      currentSessionId = createSessionId();
+      setSessionId(currentSessionId);
+      setLastReply(null);
+    }
+
+    const userMessage = createMessage("user", message, {
+      status: "sending",
+      attachments: images.length ? [{ type: "images", images: images.map((i) => i.preview) }] : undefined,
+    });
+    const newHistory = [...baseHistory, userMessage];
     setHistory(newHistory);
+    if (resendId) sentImagesRef.current.delete(resendId);
+    if (images.length) sentImagesRef.current.set(userMessage.id, images);
 
-    // brief walk when interacting
-    await animateWalk();
+    // in-progress assistant message, filled as tokens arrive
+    const assistantMessage = createMessage("assistant", "", { status: "streaming" });
+    // cancelled by a newer message or by closing the dialog: keep whatever
+    // was streamed so far
+    const settleAborted = () =>
+      setHistory((h) =>
+        h.flatMap((m) => {
+          if (m.id === assistantMessage.id) return m.content ? [{ ...m, status: "sent" as const }] : [];
+          if (m.id === userMessage.id) return [{ ...m, status: "sent" as const }];
+          return [m];
+        })
+      );
 
-    const reply = await fetchChat({
-      message,
-      history: newHistory,
-      mascotId: selectedMascot.id,
+    let partial = "";
+    // the mascot moves while the request is already on its way; it shows
+    // "thinking" afterwards unless the reply has started by then
+    const moved = choreograph("reply").then(() => {
+      if (abortRef.current === controller && !partial) mascotAnim.dispatch({ type: "REQUEST" });
     });
+
+    setHistory((h) => [...h, assistantMessage]);
+    setLastReply({ text: "" });
+    const startedAt = Date.now();
+    let firstTokenAt: number | undefined;
+    const onToken = (delta: string) => {
+      if (controller.signal.aborted) return;
+      if (!partial) {
+        firstTokenAt = Date.now();
+        mascotAnim.dispatch({ type: "SPEAK" });
+        updateMessage(userMessage.id, { status: "sent" });
+      }
+      partial += delta;
+      const text = partial;
+      updateMessage(assistantMessage.id, { content: text });
+      setLastReply((r) => ({ ...r, text }));
+    };
+
+    let reply: ChatResponse;
+    try {
+      const context = await collectPageContext({
+        locale,
+        cart: cart
+          ? {
+              itemCount: cart.total_quantity,
+              items: cart.lines.map((l) => ({ variant_id: l.variant_id, title: l.title, quantity: l.quantity })),
+            }
+          : undefined,
+      });
+      reply = await fetchChat(
+        {
+          message,
+          attachments: images.length ? images.map((i) => i.attachment) : undefined,
+          history: toChatHistory(newHistory),
+          mascotId: selectedMascot.id,
+          sessionId: currentSessionId,
+          locale,
+          cart: cart ?? undefined,
+          context,
+        },
+        onToken,
+        controller.signal
+      );
+    } catch (err) {
+      if (controller.signal.aborted) return settleAborted();
+      abortRef.current = null;
+      const kind = err instanceof ChatClientError ? err.kind : "network";
+      if (kind === "aborted") return settleAborted();
+      console.error("chat error", err);
+      bus.emit("chat_error", { kind, latencyMs: Date.now() - startedAt });
+      // the server refused the photos: say why under the composer
+      if (kind === "attachment") rejectAttachment((err as ChatClientError).attachmentCode ?? "unreadable");
+      // no fake assistant reply: drop the placeholder (and anything partial)
+      // and mark the shopper's message as failed so it can be resent
+      setHistory((h) =>
+        h
+          .filter((m) => m.id !== assistantMessage.id)
+          .map((m) => (m.id === userMessage.id ? { ...m, status: "failed" as const, error: kind } : m))
+      );
+      setLastReply(null);
+      mascotAnim.dispatch({ type: "SPEECH_END", expression: "confused" });
+      return;
+    }
+    if (controller.signal.aborted) return settleAborted();
+    abortRef.current = null;
+    bus.emit("reply_received", {
+      latencyMs: Date.now() - startedAt,
+      firstTokenMs: firstTokenAt && firstTokenAt - startedAt,
+      streamed: streaming,
+      productCount: reply.recommended_products?.length ?? 0,
+      actionCount: reply.actions?.length ?? 0,
+      text: reply.text,
+    });
+
+    const attachments: MessageAttachment[] = [];
+    if (reply.recommended_products?.length) {
+      attachments.push({ type: "products", products: reply.recommended_products });
+    }
+    if (reply.suggestions?.length) {
+      attachments.push({ type: "suggestions", suggestions: reply.suggestions });
+    }
+    for (const action of reply.actions ?? []) {
+      // actions that don't leave the page or touch the checkout run right away
+      const confirm = needsConfirmation(action);
+      if (!confirm) runAction(action, actionContext());
+      attachments.push({ type: "action", action, status: confirm ? "pending" : "done" });
+    }
+
+    if (reply.recommended_products?.length) {
+      // point out the products; the talking clip keeps playing meanwhile
+      moved.then(() => {
+        if (!controller.signal.aborted) choreograph("recommendation", { walkClip: false });
+      });
+    }
     setLastReply(reply);
-    setHistory((h) => [...h, { role: "assistant", content: reply.text }]);
+    setAnnouncement(markdownToPlainText(reply.text));
+    updateMessage(userMessage.id, { status: "sent" });
+    sentImagesRef.current.delete(userMessage.id);
+    updateMessage(assistantMessage.id, {
+      content: reply.text,
+      status: "sent",
+      attachments: attachments.length ? attachments : undefined,
+    });
+    // the assistant can't help: a person takes over while the reply plays
+    if (reply.handoff && handoffEnabled) {
+      startHandoff("assistant", [...newHistory, { ...assistantMessage, content: reply.text }]);
+    }
     await playSpeech(reply);
+    // hands-free: listen for the shopper's answer
+    voiceRef.current?.rearm();
+    if (controller.signal.aborted) return;
+    // the backend's expression drives the reaction once the reply is done
+    mascotAnim.dispatch({ type: "SPEECH_END", expression: reply.expression });
   }
 
-  /* Toggle recognition */
-  function toggleListening() {
-    if (!isBrowser) return;
-    const rec = recognitionRef.current;
-    if (!rec) {
-      alert("Speech recognition not supported in this browser.");
-      return;
+  sendRef.current = handleSendMessage;
+
+  /* Open a ticket for a person; the mascot steps back until it is closed */
+  async function startHandoff(trigger: HandoffTrigger, transcript: TranscriptMessage[] = history) {
+    if (handoffRef.current || handoffPending) return;
+    if (trigger === "shopper") cancelReply();
+    setProactive(null);
+    setHandoffPending(true);
+    try {
+      const state = await handoffClient.start({
+        shop,
+        sessionId,
+        locale,
+        trigger,
+        transcript: toChatHistory(transcript),
+      });
+      setHandoff(state);
+      bus.emit("handoff_started", { trigger });
+      setHistory((h) => [...h, createMessage("assistant", t("handoffWaiting"))]);
+      setAnnouncement(t("handoffWaiting"));
+    } catch (err) {
+      console.error("handoff error", err);
+      setHistory((h) => [...h, createMessage("assistant", t("handoffUnavailable"))]);
+      setAnnouncement(t("handoffUnavailable"));
+    } finally {
+      setHandoffPending(false);
     }
-    if (!listening) {
+  }
+
+  /* While a person has the conversation, messages go to them instead of the assistant */
+  async function sendToAgent(message: string, { resendId, input = "text" }: SendMessageOptions) {
+    const ticketId = handoff!.ticketId;
+    bus.emit("message_sent", { input, length: message.length, images: 0, resend: !!resendId, text: message });
+    const userMessage = createMessage("user", message, { status: "sending" });
+    setHistory((h) => [...h.filter((m) => m.id !== resendId), userMessage]);
+    try {
+      await handoffClient.send(ticketId, message);
+      updateMessage(userMessage.id, { status: "sent" });
+    } catch (err) {
+      console.error("handoff send error", err);
+      updateMessage(userMessage.id, { status: "failed", error: "network" });
+      // the ticket is gone (relay restarted) or was closed meanwhile
+      if (err instanceof HandoffRequestError && (err.status === 404 || err.status === 409)) {
+        endHandoff(err.status === 404 ? "lost" : "agent");
+      }
+    }
+  }
+
+  /* Apply a poll result: new agent messages, who joined, typing, closed */
+  function applyHandoffUpdate(update: HandoffUpdate | null) {
+    const current = handoffRef.current;
+    if (!current) return;
+    if (!update) return endHandoff("lost");
+    const incoming = update.messages
+      .filter((m) => m.from === "agent")
+      .map((m) =>
+        createMessage("assistant", m.text, {
+          // stable ids, so tabs polling the same ticket don't add it twice
+          id: `agent-${current.ticketId}-${m.id}`,
+          createdAt: m.at,
+          agentName: m.agentName,
+        })
+      );
+    if (incoming.length) {
+      setHistory((h) => [...h, ...incoming.filter((m) => !h.some((x) => x.id === m.id))]);
+      setAnnouncement(incoming[incoming.length - 1].content);
+    }
+    if (current.status === "waiting" && update.status === "active") {
+      bus.emit("handoff_agent_joined", { waitMs: Date.now() - current.startedAt });
+      setAnnouncement(t("handoffJoined", { name: update.agentName ?? t("handoffTeam") }));
+    }
+    setAgentTyping(update.agentTyping);
+    if (update.status === "closed") return endHandoff(update.closedBy ?? "agent");
+    if (
+      update.status !== current.status ||
+      update.agentName !== current.agentName ||
+      update.cursor !== current.cursor
+    ) {
+      setHandoff({ ...current, status: update.status, agentName: update.agentName, cursor: update.cursor });
+    }
+  }
+
+  applyHandoffRef.current = applyHandoffUpdate;
+
+  /* Back to the mascot */
+  function endHandoff(by: "agent" | "shopper" | "lost") {
+    const current = handoffRef.current;
+    if (!current) return;
+    handoffRef.current = null;
+    setHandoff(null);
+    setAgentTyping(false);
+    bus.emit("handoff_ended", { by, durationMs: Date.now() - current.startedAt });
+    const note =
+      by === "shopper"
+        ? t("handoffLeft")
+        : by === "lost"
+          ? t("handoffLost")
+          : t("handoffEnded", { name: current.agentName ?? t("handoffTeam") });
+    setHistory((h) => [...h, createMessage("assistant", note)]);
+    setAnnouncement(note);
+    choreograph("greeting");
+  }
+
+  /* The shopper ends the conversation with the person */
+  function leaveHandoff() {
+    const current = handoffRef.current;
+    if (!current) return;
+    handoffClient.leave(current.ticketId).catch((err) => console.warn("handoff leave error", err));
+    endHandoff("shopper");
+  }
+
+  /* Let the agent see the shopper typing, throttled */
+  function notifyTyping() {
+    if (!handoff || Date.now() - typingSentRef.current < TYPING_PING_MS) return;
+    typingSentRef.current = Date.now();
+    handoffClient.typing(handoff.ticketId);
+  }
+
+  /* Poll the open ticket for the agent's messages */
+  const handoffTicketId = handoff?.ticketId;
+  useEffect(() => {
+    if (!isBrowser || !handoffTicketId) return;
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = async () => {
       try {
-        rec.start();
-        setListening(true);
-      } catch (e) {
-        console.warn("recognition start error", e);
+        const update = await handoffClient.poll(
+          handoffTicketId,
+          handoffRef.current?.cursor ?? 0,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+        applyHandoffRef.current(update);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        if (err instanceof HandoffRequestError && err.status === 404) return applyHandoffRef.current(null);
+        // network hiccups: keep polling
       }
-    } else {
+      if (!controller.signal.aborted) timer = setTimeout(poll, HANDOFF_POLL_MS);
+    };
+    poll();
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [handoffTicketId, handoffClient]);
+
+  function actionContext() {
+    return { shop, cart, navigate: (url: string) => window.location.assign(url) };
+  }
+
+  /* Confirm or dismiss an action the assistant proposed */
+  function resolveAction(messageId: string, index: number, status: ActionStatus) {
+    const message = history.find((m) => m.id === messageId);
+    const attachment = message?.attachments?.[index];
+    if (!message || attachment?.type !== "action" || attachment.status !== "pending") return;
+    updateMessage(messageId, {
+      attachments: message.attachments!.map((a, i) => (i === index ? { ...attachment, status } : a)),
+    });
+    bus.emit("action_resolved", { type: attachment.action.type, status });
+    if (status === "done") runAction(attachment.action, actionContext());
+  }
+
+  /* Drop the current conversation and start over with a new session id */
+  function startNewConversation() {
+    cancelReply();
+    leaveHandoff();
+    setSessionId(createSessionId());
+    setHistory([]);
+    setLastReply(null);
+    setPendingImages([]);
+    setAttachError(null);
+    sentImagesRef.current.clear();
+  }
+
+  /* Photos picked, pasted, dropped or taken: shrink them into the composer */
+  async function addImages(files: File[]) {
+    if (!files.length) return;
+    setAttachError(null);
+    const room = MAX_IMAGES_PER_MESSAGE - pendingImages.length - preparingImages;
+    if (files.length > room) rejectAttachment("count");
+    const accepted = files.slice(0, Math.max(0, room));
+    setPreparingImages((n) => n + accepted.length);
+    for (const file of accepted) {
       try {
-        rec.stop();
-        setListening(false);
-      } catch {}
+        const image = await prepareImage(file);
+        setPendingImages((p) => [...p, image].slice(0, MAX_IMAGES_PER_MESSAGE));
+      } catch (err) {
+        if (!(err instanceof AttachmentError)) console.error("attachment error", err);
+        rejectAttachment(err instanceof AttachmentError ? err.code : "unreadable");
+      } finally {
+        setPreparingImages((n) => n - 1);
+      }
+    }
+  }
+
+  function rejectAttachment(code: AttachmentErrorCode) {
+    setAttachError(code);
+    bus.emit("attachment_rejected", { reason: code });
+  }
+
+  /* Files from one of the hidden file inputs */
+  function onPickImages(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files ?? []);
+    // the same photo can be picked again after removing it
+    e.target.value = "";
+    addImages(files);
+  }
+
+  /* Send the composer's text and photos */
+  function submitComposer() {
+    const composer = composerRef.current;
+    const text = composer?.value ?? "";
+    const images = attachEnabled ? pendingImages : [];
+    // wait for photos that are still being shrunk
+    if (preparingImages > 0 || (!text.trim() && !images.length)) return;
+    if (composer) composer.value = "";
+    if (images.length) setPendingImages([]);
+    setAttachError(null);
+    handleSendMessage(text, { images });
+  }
+
+  /* Add a recommended product to the cart; `key` is the card's addStatus key */
+  async function handleAddToCart(product: RecommendedProduct, key: string) {
+    if (product.variant_id == null) return;
+    setAddStatus((s) => ({ ...s, [key]: { state: "loading" } }));
+    try {
+      if (isShopifyStorefront()) {
+        setCart(await addToThemeCart(product.variant_id, 1));
+        clearThemeCartCache();
+      } else {
+        const res = await fetch(resolveApiUrl(ADD_TO_CART_ENDPOINT, apiEndpoint), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            variant_id: product.variant_id,
+            quantity: 1,
+            cart_id: cart?.id,
+            title: product.title,
+            price: product.price,
+          }),
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(json.error || `Add to cart failed (${res.status})`);
+        setCart(json as Cart);
+      }
+      setAddStatus((s) => ({ ...s, [key]: { state: "added" } }));
+      bus.emit("add_to_cart", { productId: String(product.id), variantId: product.variant_id, ok: true });
+    } catch (err) {
+      console.error("add to cart error", err);
+      bus.emit("add_to_cart", { productId: String(product.id), variantId: product.variant_id, ok: false });
+      setAddStatus((s) => ({
+        ...s,
+        [key]: { state: "error", error: t("addFailed") },
+      }));
+    }
+  }
+
+  /* Message timestamp in the widget locale */
+  function formatTime(at: number) {
+    return new Date(at).toLocaleTimeString(locale, { hour: "numeric", minute: "2-digit" });
+  }
+
+  /* Quick-reply chips; a click sends the text */
+  function renderSuggestions(suggestions: string[]) {
+    if (!suggestions.length) return null;
+    return (
+      <div role="group" aria-label={t("suggestions")} style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+        {suggestions.map((text) => (
+          <button
+            key={text}
+            onClick={() => handleSendMessage(text, { input: "suggestion" })}
+            style={{
+              padding: "4px 10px",
+              borderRadius: 999,
+              border: "1px solid var(--aw-primary-border)",
+              background: "var(--aw-surface)",
+              color: "var(--aw-primary-strong)",
+              cursor: "pointer",
+              fontSize: 12,
+            }}
+          >
+            {text}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  /* Ref for a product card: watched until it has been seen once */
+  function impressionRef(key: string) {
+    return (el: HTMLDivElement | null) => {
+      const cards = impressionCardsRef.current;
+      const previous = cards.get(key);
+      if (previous && previous !== el) {
+        impressionObserverRef.current?.unobserve(previous);
+        cards.delete(key);
+      }
+      if (!el || impressionsRef.current.has(key)) return;
+      cards.set(key, el);
+      impressionObserverRef.current?.observe(el);
+    };
+  }
+
+  /* Product card shown inline under the assistant message that recommended it */
+  function renderProductCard(p: RecommendedProduct, messageId: string) {
+    // per message: the same product in two replies has two buttons
+    const key = `${messageId}:${p.id}`;
+    const status = addStatus[key];
+    const href = p.handle ? productUrl(p.handle, shop) : undefined;
+    return (
+      <div
+        key={p.id}
+        ref={impressionRef(key)}
+        data-impression-key={key}
+        data-product-id={String(p.id)}
+        style={{
+          width: 150,
+          flexShrink: 0,
+          background: "var(--aw-surface)",
+          border: "1px solid var(--aw-border)",
+          padding: 8,
+          borderRadius: "var(--aw-radius-sm)",
+          boxShadow: "0 6px 12px rgba(2,6,23,0.04)",
+        }}
+      >
+        {p.image && (
+          <img
+            src={p.image}
+            alt=""
+            loading="lazy"
+            style={{
+              display: "block",
+              width: "100%",
+              height: 90,
+              objectFit: "cover",
+              borderRadius: "var(--aw-radius-sm)",
+              marginBottom: 6,
+            }}
+          />
+        )}
+        <div style={{ fontSize: 13, fontWeight: 600 }}>
+          {href ? (
+            <a
+              href={href}
+              onClick={() => bus.emit("product_click", { productId: String(p.id) })}
+              style={{ color: "inherit", textDecoration: "none" }}
+            >
+              {p.title}
+            </a>
+          ) : (
+            p.title
+          )}
+        </div>
+        <div style={{ fontSize: 13, color: "var(--aw-text-muted)" }}>{formatPrice(p, locale)}</div>
+        <button
+          disabled={p.variant_id == null || status?.state === "loading"}
+          style={{
+            marginTop: 8,
+            padding: "6px 8px",
+            borderRadius: "var(--aw-radius-sm)",
+            border: "none",
+            background: status?.state === "added" ? "var(--aw-success)" : "var(--aw-primary)",
+            color: "var(--aw-on-primary)",
+            cursor: p.variant_id == null ? "not-allowed" : "pointer",
+            opacity: p.variant_id == null ? 0.5 : 1,
+            fontSize: 13,
+          }}
+          onClick={() => handleAddToCart(p, key)}
+        >
+          {status?.state === "loading"
+            ? t("adding")
+            : status?.state === "added"
+            ? t("added")
+            : t("add")}
+        </button>
+        {status?.state === "error" && (
+          <div role="alert" style={{ marginTop: 6, fontSize: 12, color: "var(--aw-danger)" }}>
+            {status.error}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  /* Pick another mascot from the selector */
+  function switchMascot(index: number) {
+    if (index === activeMascotIndex) return;
+    bus.emit("mascot_switch", { from: selectedMascot.id, to: mascots[index].id });
+    setSelectedMascotIndex(index);
+  }
+
+  /* Radio group keys: arrows pick the previous / next mascot and move focus with it */
+  function onMascotPickerKey(e: React.KeyboardEvent<HTMLDivElement>) {
+    const step = { ArrowRight: 1, ArrowDown: 1, ArrowLeft: -1, ArrowUp: -1 }[e.key];
+    if (!step) return;
+    e.preventDefault();
+    const next = (activeMascotIndex + step + mascots.length) % mascots.length;
+    switchMascot(next);
+    const radios = e.currentTarget.querySelectorAll<HTMLElement>('[role="radio"]');
+    radios[next]?.focus();
+  }
+
+  /* Start or end the hands-free voice conversation */
+  function toggleListening() {
+    const voice = voiceRef.current;
+    if (!voice) return;
+    setVoiceError(null);
+    if (listening) {
+      voice.stop();
+    } else {
+      voice.start();
+      // the live transcript shows up in the composer
+      if (voice.supported) setOpen(true);
     }
   }
 
-  /* Walk animation (across screen & back) */
-  async function animateWalk() {
-    setIsWalking(true);
-    const viewportWidth = isBrowser ? window.innerWidth : 1200;
-    const distance = Math.min(viewportWidth * 0.75, selectedMascot.walkDistance ?? 800);
-    await controls.start({
-      x: [0, -distance, distance * 0.35, 0],
-      transition: { duration: 3.2, times: [0, 0.45, 0.8, 1], ease: "easeInOut" },
+  /**
+   * Play the mascot's path for a context (lib/choreography.ts), fitted to the
+   * viewport and clear of avoided page elements. Resolves true when it played
+   * to the end, false when there was none or it was cut short.
+   */
+  function choreograph(context: ChoreographyContext, { walkClip = true } = {}): Promise<boolean> {
+    const home = rootRef.current?.getBoundingClientRect();
+    // reduced motion: the mascot stays put
+    const path =
+      reduceMotion || !home
+        ? null
+        : pathForContext(selectedMascot.choreography, selectedMascot.walkDistance, context);
+    if (!path || !home) return Promise.resolve(false);
+    stopChoreographyRef.current();
+
+    const frames = fitPath(path, {
+      home,
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      avoid: avoidRects(avoidSelector),
+      left: isLeft(position),
+      top: isTop(position),
+    });
+    const walking = walkClip && !!path.walking;
+    if (walking) mascotAnim.dispatch({ type: "WALK" });
+    return new Promise((resolve) => {
+      const finish = (completed: boolean) => {
+        if (stopChoreographyRef.current !== stop) return;
+        stopChoreographyRef.current = NOOP;
+        if (walking) mascotAnim.dispatch({ type: "WALK_END" });
+        resolve(completed);
+      };
+      const stop = () => {
+        controls.stop();
+        controls.set(AT_HOME);
+        finish(false);
+      };
+      stopChoreographyRef.current = stop;
+      controls
+        .start({
+          x: frames.map((f) => f.x),
+          y: frames.map((f) => f.y),
+          rotate: frames.map((f) => f.rotate),
+          scale: frames.map((f) => f.scale),
+          transition: { duration: path.duration / 1000, times: keyframeTimes(path), ease: "easeInOut" },
+        })
+        .then(() => finish(true));
     });
-    setIsWalking(false);
+  }
+
+  choreographRef.current = choreograph;
+
+  /* A resize or rotation sends the mascot home; the next path is fitted to the new viewport */
+  useEffect(() => {
+    if (!isBrowser) return;
+    const onResize = () => stopChoreographyRef.current();
+    window.addEventListener("resize", onResize);
+    window.addEventListener("orientationchange", onResize);
+    return () => {
+      window.removeEventListener("resize", onResize);
+      window.removeEventListener("orientationchange", onResize);
+    };
+  }, []);
+
+  /* Idle fidget: now and then, while nobody is using the widget */
+  const idleSeconds = selectedMascot.choreography?.idleSeconds ?? DEFAULT_IDLE_SECONDS;
+  useEffect(() => {
+    if (!isBrowser || !idleSeconds || reduceMotion) return;
+    let fidgets = 0;
+    const timer = setInterval(() => {
+      if (fidgets >= MAX_IDLE_FIDGETS || document.visibilityState === "hidden") return;
+      if (!engagementRef.current.idle || stopChoreographyRef.current !== NOOP) return;
+      fidgets += 1;
+      choreographRef.current("idle");
+    }, idleSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [idleSeconds, reduceMotion]);
+
+  /* Closing the dialog cancels a reply that is still streaming */
+  const dialogToggledRef = useRef<(isOpen: boolean) => void>(NOOP);
+  dialogToggledRef.current = (isOpen) => {
+    if (!isOpen) cancelReply();
+    // closing a dialog we opened with prompts, without using them, dismisses them
+    if (!isOpen && proactive?.action === "open_chat") dismissProactive();
+    // a greeting has done its job once the shopper opens the chat
+    if (isOpen && proactive?.action === "greet") setProactive(null);
+  };
+  useEffect(() => {
+    dialogToggledRef.current(open);
+  }, [open]);
+
+  /* Modal focus: composer on open, Tab trapped, Escape closes, focus returns.
+     A dialog opened by an engagement rule doesn't take focus from the page. */
+  useDialogFocus(
+    open,
+    dialogRef,
+    composerRef,
+    () => setOpen(false),
+    () => proactive?.action !== "open_chat"
+  );
+
+  /* Proactive engagement (lib/engagement.ts) */
+  const engagementHistoryRef = useRef<EngagementHistoryStore | null>(null);
+  const engagementRef = useRef({ idle: true, hasCart: false, onFire: (_rule: EngagementRule) => {} });
+  engagementRef.current = {
+    // only reach out to a shopper who isn't already using the widget
+    idle:
+      !open && !listening && !proactive && !handoff && !abortRef.current && speakingRef.current === null,
+    hasCart: (cart?.total_quantity ?? 0) > 0,
+    onFire: runEngagement,
+  };
+
+  useEffect(() => {
+    if (!isBrowser || !engagementRules?.length) return;
+    const history = createEngagementHistory(shop, () => sessionIdRef.current);
+    engagementHistoryRef.current = history;
+    const pageType = detectPageContext().pageType;
+    return startEngagement({
+      rules: engagementRules,
+      pageType: () => pageType,
+      hasCartItems: async () =>
+        engagementRef.current.hasCart || ((await collectPageContext())?.cart?.itemCount ?? 0) > 0,
+      isIdle: () => engagementRef.current.idle,
+      history,
+      onFire: (rule) => engagementRef.current.onFire(rule),
+    });
+  }, [engagementRules, shop]);
+
+  async function runEngagement(rule: EngagementRule) {
+    bus.emit("engagement_triggered", { ruleId: rule.id, trigger: rule.trigger.type, action: rule.action });
+    if (rule.action === "open_chat") {
+      setProactive(rule);
+      setOpen(true);
+      if (rule.message) setAnnouncement(rule.message);
+      return;
+    }
+    if (rule.action === "greet") setProactive(rule);
+    await choreograph("greeting");
+    if (rule.action === "greet" && rule.message) setAnnouncement(rule.message);
+  }
+
+  function dismissProactive() {
+    if (!proactive) return;
+    engagementHistoryRef.current?.recordDismissed(proactive.id);
+    bus.emit("engagement_dismissed", { ruleId: proactive.id });
+    setProactive(null);
   }
 
   /* Keyboard shortcut */
@@ -300,444 +1547,946 @@ export default function AvatarWidget(): JSX.Element {
     }
   }, []);
 
-  /* choose which video */
-  const displayVideoSrc =
-    isWalking && selectedMascot.video ? selectedMascot.video : selectedMascot.idleVideo ?? selectedMascot.video;
-
   /* Render */
   return (
-    <div
-      aria-live="polite"
-      style={{
-        position: "fixed",
-        right: 28,
-        bottom: 24,
-        zIndex: 9999,
-        pointerEvents: "none",
-      }}
-    >
-      <motion.div
-        animate={controls}
-        initial={{ x: 0 }}
+    <MotionConfig reducedMotion="user">
+      <div
+        ref={rootRef}
+        data-theme-scheme={dark ? "dark" : "light"}
         style={{
-          pointerEvents: "auto",
-          display: "flex",
-          alignItems: "center",
-          gap: 12,
-          transform: "translateZ(0)",
+          ...(themeVars(theme, dark) as React.CSSProperties),
+          position: "fixed",
+          ...cornerOffset(position, "var(--aw-offset-x)"),
+          ...edgeOffset(position, "var(--aw-offset-y)"),
+          zIndex: 9999,
+          pointerEvents: "none",
+          fontFamily: "var(--aw-font)",
+          color: "var(--aw-text)",
+          colorScheme: dark ? "dark" : "light",
         }}
       >
-        {/* speech bubble */}
+        {/* screen readers hear each finished reply once, not every control change */}
         <div
-          style={{
-            display: lastReply ? "block" : "none",
-            maxWidth: 300,
-            marginRight: 8,
-            background: "white",
-            borderRadius: 12,
-            padding: "10px 12px",
-            boxShadow: "0 6px 20px rgba(0,0,0,0.12)",
-            pointerEvents: "auto",
-            fontSize: 13,
-          }}
+          role="status"
+          aria-live="polite"
+          aria-atomic="true"
+          lang={locale}
+          style={VISUALLY_HIDDEN}
         >
-          {lastReply?.text ?? ""}
+          {announcement}
         </div>
 
-        {/* mascot container */}
-        <div
+        <motion.div
+          animate={controls}
+          initial={{ x: 0 }}
           style={{
+            pointerEvents: "auto",
             display: "flex",
-            flexDirection: "column",
+            flexDirection: isLeft(position) ? "row-reverse" : "row",
             alignItems: "center",
-            pointerEvents: "auto",
+            gap: 12,
+            transform: "translateZ(0)",
           }}
         >
+          {/* speech bubble; captions the reply sentence by sentence while it is spoken */}
           <div
-            role="button"
-            onClick={() => toggleListening()}
-            tabIndex={0}
-            onKeyDown={(e) => {
-              if (e.key === "Enter" || e.key === " ") toggleListening();
-            }}
+            dir={localeInfo.dir}
+            lang={locale}
+            data-captions={caption !== null || undefined}
             style={{
-              display: "flex",
-              alignItems: "center",
-              justifyContent: "center",
-              width: 160,
-              height: 160,
+              display: lastReply || caption || greetingRule ? "block" : "none",
               position: "relative",
+              maxWidth: "min(300px, calc(100vw - var(--aw-mascot-size) - 80px))",
+              marginRight: 8,
+              background: "var(--aw-surface)",
+              borderRadius: "var(--aw-radius)",
+              padding: "10px 12px",
+              paddingInlineEnd: caption === null && greetingRule ? 22 : 12,
+              boxShadow: "0 6px 20px rgba(0,0,0,0.12)",
               pointerEvents: "auto",
-              cursor: "pointer",
+              fontSize: 13,
             }}
           >
-            {/* animated rings */}
-            <motion.div
-              animate={
-                listening
-                  ? { scale: [1, 1.12, 1], opacity: [0.6, 0.95, 0.6] }
-                  : { scale: 1, opacity: 1 }
-              }
-              transition={{ repeat: listening ? Infinity : 0, duration: 1.2 }}
-              style={{
-                position: "absolute",
-                width: 160,
-                height: 160,
-                borderRadius: "50%",
-                background: "rgba(99,102,241,0.06)",
-                zIndex: 1,
-                pointerEvents: "none",
-              }}
-            />
-            <motion.div
-              animate={
-                listening
-                  ? { scale: [1, 1.08, 1], opacity: [0.4, 0.85, 0.4] }
-                  : { scale: 1, opacity: 1 }
-              }
-              transition={{ repeat: listening ? Infinity : 0, duration: 1.6 }}
-              style={{
-                position: "absolute",
-                width: 124,
-                height: 124,
-                borderRadius: "50%",
-                background: "rgba(99,102,241,0.04)",
-                zIndex: 1,
-                pointerEvents: "none",
-              }}
-            />
-
-            {/* main video / poster */}
-            {displayVideoSrc ? (
-              <video
-                key={selectedMascot.id + (isWalking ? "-walk" : "-idle")}
-                src={displayVideoSrc}
-                poster={selectedMascot.poster}
-                loop
-                muted
-                playsInline
-                autoPlay
-                style={{
-                  width: 160,
-                  height: 160,
-                  objectFit: "cover",
-                  borderRadius: 14,
-                  boxShadow: "0 6px 18px rgba(0,0,0,0.18)",
-                  zIndex: 3,
-                }}
-              />
-            ) : (
-              <img
-                src={selectedMascot.poster}
-                alt={selectedMascot.title}
-                style={{
-                  width: 160,
-                  height: 160,
-                  objectFit: "cover",
-                  borderRadius: 14,
-                  boxShadow: "0 6px 18px rgba(0,0,0,0.18)",
-                  zIndex: 3,
-                }}
-              />
-            )}
-
-            {/* mic badge */}
-            <div
-              style={{
-                position: "absolute",
-                bottom: 8,
-                left: "50%",
-                transform: "translateX(-50%)",
-                display: "flex",
-                gap: 6,
-                alignItems: "center",
-                background: "rgba(255,255,255,0.95)",
-                padding: "6px 10px",
-                borderRadius: 20,
-                boxShadow: "0 6px 14px rgba(0,0,0,0.08)",
-                zIndex: 6,
-              }}
-            >
+            {caption ?? greetingRule?.message ?? markdownToPlainText(lastReply?.text ?? "")}
+            {caption === null && greetingRule && (
               <button
-                onClick={() => toggleListening()}
-                title={listening ? "Stop listening" : "Start listening"}
+                onClick={dismissProactive}
+                title={t("dismissGreeting")}
+                aria-label={t("dismissGreeting")}
                 style={{
+                  position: "absolute",
+                  top: 2,
+                  insetInlineEnd: 2,
                   border: "none",
                   background: "transparent",
+                  color: "var(--aw-text-muted)",
                   cursor: "pointer",
                   display: "flex",
-                  alignItems: "center",
-                  gap: 8,
+                  padding: 2,
                 }}
-                aria-pressed={listening}
               >
-                <Mic2 size={16} />
-                <span style={{ fontSize: 13 }}>{listening ? "Listening" : "Speak"}</span>
+                <XIcon size={12} />
               </button>
-            </div>
+            )}
           </div>
 
-          {/* controls: mute, open chat, mascot selector */}
+          {/* mascot container */}
           <div
             style={{
               display: "flex",
-              gap: 8,
-              marginTop: 8,
+              flexDirection: "column",
               alignItems: "center",
               pointerEvents: "auto",
             }}
           >
-            <button
-              onClick={() => setMuted((m) => !m)}
-              title={muted ? "Unmute" : "Mute"}
-              style={{
-                border: "none",
-                background: "white",
-                padding: 8,
-                borderRadius: 10,
-                boxShadow: "0 4px 12px rgba(0,0,0,0.06)",
-                cursor: "pointer",
-              }}
-            >
-              {muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
-            </button>
-
-            <button
-              onClick={() => setOpen((o) => !o)}
-              title="Open chat"
+            {/* clicking the mascot is a mouse shortcut; the mic button is the keyboard control */}
+            <div
+              data-mascot-state={mascotAnim.state}
+              onClick={() => toggleListening()}
               style={{
-                border: "none",
-                background: "white",
-                padding: 8,
-                borderRadius: 10,
-                boxShadow: "0 4px 12px rgba(0,0,0,0.06)",
-                cursor: "pointer",
                 display: "flex",
-                gap: 8,
                 alignItems: "center",
+                justifyContent: "center",
+                width: "var(--aw-mascot-size)",
+                height: "var(--aw-mascot-size)",
+                position: "relative",
+                pointerEvents: "auto",
+                cursor: voiceInput ? "pointer" : "default",
               }}
             >
-              <Keyboard size={14} />
-              <span style={{ fontSize: 13 }}>Chat</span>
-            </button>
+              {/* animated rings */}
+              <motion.div
+                animate={
+                  listening && !reduceMotion
+                    ? { scale: [1, 1.12, 1], opacity: [0.6, 0.95, 0.6] }
+                    : { scale: 1, opacity: 1 }
+                }
+                transition={{ repeat: listening && !reduceMotion ? Infinity : 0, duration: 1.2 }}
+                style={{
+                  position: "absolute",
+                  width: "var(--aw-mascot-size)",
+                  height: "var(--aw-mascot-size)",
+                  borderRadius: "50%",
+                  background: "var(--aw-primary-tint)",
+                  zIndex: 1,
+                  pointerEvents: "none",
+                }}
+              />
+              <motion.div
+                animate={
+                  listening && !reduceMotion
+                    ? { scale: [1, 1.08, 1], opacity: [0.4, 0.85, 0.4] }
+                    : { scale: 1, opacity: 1 }
+                }
+                transition={{ repeat: listening && !reduceMotion ? Infinity : 0, duration: 1.6 }}
+                style={{
+                  position: "absolute",
+                  width: "calc(var(--aw-mascot-size) * 0.78)",
+                  height: "calc(var(--aw-mascot-size) * 0.78)",
+                  borderRadius: "50%",
+                  background: "var(--aw-primary-tint)",
+                  zIndex: 1,
+                  pointerEvents: "none",
+                }}
+              />
+
+              {/* mascot: sprite sheet, video clip or poster */}
+              <motion.div
+                variants={reduceMotion ? REDUCED_MOTION_VARIANTS : MASCOT_VARIANTS}
+                animate={mascotAnim.state}
+                style={{ zIndex: 3, display: "flex" }}
+              >
+                {/* lip sync: scale + glow on the body, mouth overlay on top */}
+                <motion.div
+                  style={{
+                    scale: reduceMotion ? 1 : talkScale,
+                    filter: talkGlow,
+                    position: "relative",
+                    display: "flex",
+                  }}
+                >
+                  <MascotRenderer
+                    mascot={selectedMascot}
+                    state={mascotAnim.state}
+                    size={theme.mascotSize}
+                    debug={debugMascot}
+                  />
+                  <motion.div
+                    aria-hidden="true"
+                    style={{
+                      position: "absolute",
+                      left: "50%",
+                      bottom: "26%",
+                      width: 30,
+                      height: 12,
+                      marginLeft: -15,
+                      borderRadius: "50%",
+                      background: "rgba(17,24,39,0.8)",
+                      scaleY: mouthScaleY,
+                      opacity: mouthOpacity,
+                      zIndex: 4,
+                      pointerEvents: "none",
+                    }}
+                  />
+                </motion.div>
+              </motion.div>
+
+              {/* mic badge */}
+              {voiceInput && (
+                <div
+                  style={{
+                    position: "absolute",
+                    bottom: 8,
+                    left: "50%",
+                    transform: "translateX(-50%)",
+                    display: "flex",
+                    gap: 6,
+                    alignItems: "center",
+                    background: "var(--aw-surface)",
+                    padding: "6px 10px",
+                    borderRadius: 20,
+                    boxShadow: "0 6px 14px rgba(0,0,0,0.08)",
+                    zIndex: 6,
+                  }}
+                >
+                  <button
+                    onClick={(e) => {
+                      // the mascot behind the badge toggles too
+                      e.stopPropagation();
+                      toggleListening();
+                    }}
+                    title={listening ? t("stopListening") : t("startListening")}
+                    style={{
+                      border: "none",
+                      background: "transparent",
+                      cursor: "pointer",
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 8,
+                    }}
+                    aria-pressed={listening}
+                  >
+                    <Mic2 size={16} />
+                    <span style={{ fontSize: 13 }}>{listening ? t("listening") : t("speak")}</span>
+                  </button>
+                </div>
+              )}
+
+              {voiceError && (
+                <div
+                  role="status"
+                  style={{
+                    position: "absolute",
+                    bottom: 48,
+                    left: 8,
+                    right: 8,
+                    padding: "6px 10px",
+                    borderRadius: "var(--aw-radius)",
+                    background: "var(--aw-surface)",
+                    boxShadow: "0 6px 14px rgba(0,0,0,0.08)",
+                    color: voiceError === "no-speech" ? "var(--aw-text)" : "var(--aw-danger)",
+                    fontSize: 12,
+                    textAlign: "center",
+                    zIndex: 7,
+                  }}
+                >
+                  {t(VOICE_ERROR_MESSAGES[voiceError])}
+                </div>
+              )}
+            </div>
 
-            {/* small mascot selector */}
+            {/* controls: mute, open chat, mascot selector */}
             <div
               style={{
                 display: "flex",
-                gap: 6,
+                gap: 8,
+                marginTop: 8,
                 alignItems: "center",
-                background: "rgba(255,255,255,0.95)",
-                padding: "6px 8px",
-                borderRadius: 12,
-                boxShadow: "0 6px 14px rgba(0,0,0,0.04)",
+                pointerEvents: "auto",
               }}
             >
-              {MASCOT_ASSETS.map((m, i) => (
+              {voiceOutput && (
                 <button
-                  key={m.id}
-                  onClick={() => setSelectedMascotIndex(i)}
-                  title={m.title}
+                  onClick={() => {
+                    if (!muted) stopSpeech();
+                    setMuted((m) => !m);
+                  }}
+                  title={muted ? t("unmute") : t("mute")}
+                  aria-label={t("mute")}
+                  aria-pressed={muted}
                   style={{
-                    width: 36,
-                    height: 36,
-                    borderRadius: 6,
-                    overflow: "hidden",
-                    border:
-                      selectedMascotIndex === i
-                        ? "2px solid rgb(99,102,241)"
-                        : "1px solid rgba(16,24,40,0.06)",
-                    padding: 0,
-                    background: "#fff",
+                    border: "none",
+                    background: "var(--aw-surface)",
+                    padding: 8,
+                    borderRadius: "var(--aw-radius)",
+                    boxShadow: "0 4px 12px rgba(0,0,0,0.06)",
                     cursor: "pointer",
                   }}
                 >
-                  <img
-                    src={m.poster}
-                    alt={m.title}
-                    style={{ width: "100%", height: "100%", objectFit: "cover" }}
-                  />
+                  {muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
                 </button>
-              ))}
-            </div>
-          </div>
-        </div>
-      </motion.div>
+              )}
 
-      {/* Chat modal */}
-      {open && (
-        <div
-          role="dialog"
-          aria-modal="true"
-          style={{
-            position: "fixed",
-            right: 28,
-            bottom: 190,
-            width: 380,
-            maxWidth: "calc(100vw - 40px)",
-            background: "#fff",
-            borderRadius: 12,
-            boxShadow: "0 20px 50px rgba(2,6,23,0.2)",
-            padding: 14,
-            zIndex: 10000,
-            pointerEvents: "auto",
-          }}
-        >
-          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
-            <strong>Chat with {selectedMascot.title}</strong>
-            <button
-              title="Close"
-              onClick={() => setOpen(false)}
-              style={{
-                border: "none",
-                background: "transparent",
-                cursor: "pointer",
-              }}
-            >
-              <XIcon size={16} />
-            </button>
+              <button
+                onClick={() => setOpen((o) => !o)}
+                title={t("openChat")}
+                aria-expanded={open}
+                aria-haspopup="dialog"
+                style={{
+                  border: "none",
+                  background: "var(--aw-surface)",
+                  padding: 8,
+                  borderRadius: "var(--aw-radius)",
+                  boxShadow: "0 4px 12px rgba(0,0,0,0.06)",
+                  cursor: "pointer",
+                  display: "flex",
+                  gap: 8,
+                  alignItems: "center",
+                }}
+              >
+                <Keyboard size={14} />
+                <span style={{ fontSize: 13 }}>{t("chat")}</span>
+              </button>
+
+              {/* small mascot selector: a radio group, arrow keys move the selection */}
+              <div
+                role="radiogroup"
+                aria-label={t("chooseMascot")}
+                onKeyDown={onMascotPickerKey}
+                style={{
+                  display: "flex",
+                  gap: 6,
+                  alignItems: "center",
+                  background: "var(--aw-surface)",
+                  padding: "6px 8px",
+                  borderRadius: "var(--aw-radius)",
+                  boxShadow: "0 6px 14px rgba(0,0,0,0.04)",
+                }}
+              >
+                {mascots.map((m, i) => (
+                  <button
+                    key={m.id}
+                    role="radio"
+                    aria-checked={activeMascotIndex === i}
+                    aria-label={m.title}
+                    tabIndex={activeMascotIndex === i ? 0 : -1}
+                    onClick={() => switchMascot(i)}
+                    title={m.title}
+                    style={{
+                      width: PICKER_THUMB_SIZE,
+                      height: PICKER_THUMB_SIZE,
+                      borderRadius: "var(--aw-radius-sm)",
+                      overflow: "hidden",
+                      border:
+                        activeMascotIndex === i
+                          ? "2px solid var(--aw-primary)"
+                          : "1px solid var(--aw-border)",
+                      padding: 0,
+                      background: "var(--aw-surface)",
+                      cursor: "pointer",
+                    }}
+                  >
+                    <img
+                      src={posterFor(m, PICKER_THUMB_SIZE)}
+                      srcSet={posterSrcSet(m)}
+                      sizes={`${PICKER_THUMB_SIZE}px`}
+                      alt=""
+                      loading="lazy"
+                      decoding="async"
+                      width={PICKER_THUMB_SIZE}
+                      height={PICKER_THUMB_SIZE}
+                      style={{ width: "100%", height: "100%", objectFit: "cover" }}
+                    />
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
+        </motion.div>
 
+        {/* Chat modal */}
+        {open && (
           <div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="academic-avatar-dialog-title"
+            dir={localeInfo.dir}
+            lang={locale}
+            data-fullscreen={fullscreenDialog || undefined}
+            onDragOver={(e) => {
+              if (!attachEnabled || !e.dataTransfer.types.includes("Files")) return;
+              e.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+            }}
+            onDrop={(e) => {
+              if (!attachEnabled || !e.dataTransfer.files.length) return;
+              e.preventDefault();
+              setDragging(false);
+              addImages(Array.from(e.dataTransfer.files));
+            }}
             style={{
-              marginTop: 12,
-              maxHeight: 320,
-              overflowY: "auto",
-              display: "flex",
-              flexDirection: "column",
-              gap: 8,
-              paddingRight: 6,
+              position: "fixed",
+              ...(fullscreenDialog
+                ? { inset: 0, display: "flex", flexDirection: "column" as const }
+                : {
+                    ...cornerOffset(position, "var(--aw-offset-x)"),
+                    // above the mascot, or below it and its controls in a top corner
+                    ...edgeOffset(
+                      position,
+                      isTop(position)
+                        ? "calc(var(--aw-offset-y) + var(--aw-mascot-size) + 56px)"
+                        : "calc(var(--aw-offset-y) + var(--aw-mascot-size) + 6px)"
+                    ),
+                    width: "var(--aw-dialog-width)",
+                    maxWidth: "calc(100vw - 40px)",
+                    borderRadius: "var(--aw-radius)",
+                    boxShadow: "0 20px 50px rgba(2,6,23,0.2)",
+                  }),
+              background: "var(--aw-surface)",
+              padding: 14,
+              zIndex: 10000,
+              pointerEvents: "auto",
             }}
           >
-            {history.length === 0 && (
-              <div style={{ color: "#6b7280", fontSize: 13 }}>
-                Say hi to start the conversation — click the mascot or press
-                Ctrl/Cmd+K.
+            {dragging && (
+              <div
+                aria-hidden
+                style={{
+                  position: "absolute",
+                  inset: 0,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  padding: 24,
+                  textAlign: "center",
+                  border: "2px dashed var(--aw-primary)",
+                  borderRadius: fullscreenDialog ? 0 : "var(--aw-radius)",
+                  background: "color-mix(in srgb, var(--aw-surface) 90%, transparent)",
+                  color: "var(--aw-text)",
+                  fontSize: 14,
+                  zIndex: 1,
+                  pointerEvents: "none",
+                }}
+              >
+                {t("dropImages")}
               </div>
             )}
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+              <strong id="academic-avatar-dialog-title">
+                {handoff
+                  ? handoff.agentName
+                    ? t("chatWith", { name: handoff.agentName })
+                    : t("talkToPerson")
+                  : t("chatWith", { name: selectedMascot.title })}
+              </strong>
+              {handoffEnabled && !handoff && (
+                <button
+                  title={t("talkToPerson")}
+                  aria-label={t("talkToPerson")}
+                  onClick={() => startHandoff("shopper")}
+                  disabled={handoffPending}
+                  style={{
+                    marginInlineStart: "auto",
+                    border: "none",
+                    background: "transparent",
+                    cursor: handoffPending ? "default" : "pointer",
+                    opacity: handoffPending ? 0.4 : 1,
+                    display: "flex",
+                  }}
+                >
+                  <Headphones size={14} />
+                </button>
+              )}
+              <button
+                title={t("newConversation")}
+                aria-label={t("newConversation")}
+                onClick={() => startNewConversation()}
+                disabled={history.length === 0}
+                style={{
+                  marginInlineStart: handoffEnabled && !handoff ? 8 : "auto",
+                  marginInlineEnd: 8,
+                  border: "none",
+                  background: "transparent",
+                  cursor: history.length === 0 ? "default" : "pointer",
+                  opacity: history.length === 0 ? 0.4 : 1,
+                  display: "flex",
+                }}
+              >
+                <RotateCcw size={14} />
+              </button>
+              {cart && cart.total_quantity > 0 && (
+                <a
+                  href={cart.checkout_url ?? "/cart"}
+                  title={t("viewCart")}
+                  style={{
+                    marginInlineEnd: 8,
+                    display: "flex",
+                    gap: 4,
+                    alignItems: "center",
+                    fontSize: 13,
+                    color: "inherit",
+                    textDecoration: "none",
+                  }}
+                >
+                  <ShoppingCart size={14} />
+                  <span aria-label={t("cartItems", { count: cart.total_quantity })}>
+                    {cart.total_quantity}
+                  </span>
+                </a>
+              )}
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value)}
+                aria-label={t("language")}
+                title={t("language")}
+                style={{
+                  marginInlineEnd: 8,
+                  border: "1px solid var(--aw-border)",
+                  borderRadius: "var(--aw-radius-sm)",
+                  background: "var(--aw-surface)",
+                  fontSize: 12,
+                  padding: "2px 4px",
+                }}
+              >
+                {LOCALES.map((l) => (
+                  <option key={l.code} value={l.code}>
+                    {l.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                title={t("close")}
+                aria-label={t("close")}
+                onClick={() => setOpen(false)}
+                style={{
+                  border: "none",
+                  background: "transparent",
+                  cursor: "pointer",
+                }}
+              >
+                <XIcon size={16} />
+              </button>
+            </div>
 
-            {history.map((m, idx) => (
+            {handoff && (
               <div
-                key={idx}
+                role="status"
                 style={{
-                  alignSelf: m.role === "user" ? "flex-end" : "flex-start",
-                  background: m.role === "user" ? "#eef2ff" : "#f3f4f6",
-                  padding: "8px 10px",
-                  borderRadius: 10,
-                  maxWidth: "85%",
-                  fontSize: 13,
+                  marginTop: 8,
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 8,
+                  padding: "6px 10px",
+                  borderRadius: "var(--aw-radius)",
+                  border: "1px solid var(--aw-primary-border)",
+                  fontSize: 12,
                 }}
               >
-                {m.content}
+                <Headphones size={14} aria-hidden="true" />
+                <span style={{ flex: 1 }}>
+                  {handoff.agentName
+                    ? t("handoffJoined", { name: handoff.agentName })
+                    : t("handoffQueued")}
+                </span>
+                <button
+                  onClick={leaveHandoff}
+                  aria-label={t("handoffEndLabel")}
+                  style={{
+                    padding: "4px 10px",
+                    borderRadius: "var(--aw-radius-sm)",
+                    border: "1px solid var(--aw-border)",
+                    background: "transparent",
+                    cursor: "pointer",
+                    fontSize: 12,
+                  }}
+                >
+                  {t("handoffEnd")}
+                </button>
               </div>
-            ))}
-          </div>
+            )}
 
-          <div style={{ marginTop: 12, display: "flex", gap: 8, alignItems: "center" }}>
-            <input
-              ref={composerRef}
-              type="text"
-              placeholder="Type a message..."
-              onKeyDown={(e) => {
-                if (e.key === "Enter") {
-                  const v = (e.target as HTMLInputElement).value;
-                  (e.target as HTMLInputElement).value = "";
-                  handleSendMessage(v);
-                }
-              }}
-              style={{
-                flex: 1,
-                padding: "10px 12px",
-                borderRadius: 10,
-                border: "1px solid rgba(16,24,40,0.06)",
-              }}
-            />
-            <button
-              title="Send"
-              onClick={() => {
-                const v = composerRef.current?.value ?? "";
-                if (!v) return;
-                composerRef.current!.value = "";
-                handleSendMessage(v);
-              }}
+            <div
               style={{
-                padding: "8px 12px",
-                borderRadius: 10,
-                border: "none",
-                background: "rgb(99,102,241)",
-                color: "#fff",
-                cursor: "pointer",
+                marginTop: 12,
+                ...(fullscreenDialog ? { flex: 1, minHeight: 0 } : { maxHeight: 320 }),
+                overflowY: "auto",
+                display: "flex",
+                flexDirection: "column",
+                gap: 8,
+                paddingRight: 6,
               }}
             >
-              Send
-            </button>
-          </div>
+              {history.length === 0 && proactive?.action !== "open_chat" && (
+                <div style={{ color: "var(--aw-text-muted)", fontSize: 13 }}>
+                  {(greeting || selectedMascot.greeting) && (
+                    <div style={{ color: "var(--aw-text)", marginBottom: 6 }}>
+                      {greeting || selectedMascot.greeting}
+                    </div>
+                  )}
+                  {t("emptyHint")}
+                </div>
+              )}
 
-          {/* recommended products */}
-          {lastReply?.recommended_products?.length ? (
-            <div style={{ marginTop: 12 }}>
-              <div style={{ fontSize: 13, marginBottom: 6 }}>Recommended</div>
-              <div style={{ display: "flex", gap: 8, overflowX: "auto" }}>
-                {lastReply.recommended_products!.map((p) => (
+              {history.map((m, idx) => {
+                const products = messageProducts(m);
+                const suggestions = messageSuggestions(m);
+                const images = messageImages(m);
+                const isUser = m.role === "user";
+                return (
                   <div
-                    key={p.id}
+                    key={m.id}
                     style={{
-                      minWidth: 160,
-                      background: "#fff",
-                      border: "1px solid rgba(16,24,40,0.04)",
-                      padding: 8,
-                      borderRadius: 8,
-                      boxShadow: "0 6px 12px rgba(2,6,23,0.04)",
+                      alignSelf: isUser ? "flex-end" : "flex-start",
+                      maxWidth: products.length ? "100%" : "85%",
+                      display: "flex",
+                      flexDirection: "column",
+                      alignItems: isUser ? "flex-end" : "flex-start",
+                      gap: 4,
                     }}
                   >
-                    <div style={{ fontSize: 13, fontWeight: 600 }}>{p.title}</div>
-                    <div style={{ fontSize: 13, color: "#6b7280" }}>{p.price}</div>
-                    <button
+                    {m.agentName && (
+                      <div style={{ fontSize: 11, color: "var(--aw-text-muted)" }}>{m.agentName}</div>
+                    )}
+                    {images.length > 0 && (
+                      <div style={{ display: "flex", gap: 4, opacity: m.status === "sending" ? 0.7 : 1 }}>
+                        {images.map((image, i) => (
+                          <img
+                            key={i}
+                            src={image.thumbnail}
+                            alt={image.name ?? t("attachedImage")}
+                            width={ATTACHMENT_THUMB_SIZE * 1.5}
+                            height={ATTACHMENT_THUMB_SIZE * 1.5}
+                            style={{
+                              objectFit: "cover",
+                              borderRadius: "var(--aw-radius-sm)",
+                              border: m.status === "failed" ? "1px solid #fecaca" : "1px solid var(--aw-border)",
+                            }}
+                          />
+                        ))}
+                      </div>
+                    )}
+                    {/* a photo sent on its own has no text bubble */}
+                    {!(isUser && images.length && !m.content) && (
+                      <div
+                        style={{
+                          background: isUser ? "var(--aw-user-bubble)" : "var(--aw-assistant-bubble)",
+                          padding: "8px 10px",
+                          borderRadius: "var(--aw-radius)",
+                          fontSize: 13,
+                          opacity: m.status === "sending" ? 0.7 : 1,
+                          border: m.status === "failed" ? "1px solid #fecaca" : "1px solid transparent",
+                        }}
+                      >
+                        {isUser ? m.content : m.content ? <Markdown text={m.content} /> : "…"}
+                      </div>
+                    )}
+
+                    {m.attachments?.map((a, i) =>
+                      a.type === "action" && a.status === "pending" ? (
+                        <div
+                          key={i}
+                          style={{
+                            display: "flex",
+                            alignItems: "center",
+                            gap: 8,
+                            padding: "6px 10px",
+                            borderRadius: "var(--aw-radius)",
+                            border: "1px solid var(--aw-primary-border)",
+                            background: "var(--aw-surface)",
+                            fontSize: 12,
+                          }}
+                        >
+                          <span style={{ flex: 1 }}>{describeAction(a.action, t)}</span>
+                          <button
+                            onClick={() => resolveAction(m.id, i, "done")}
+                            style={{
+                              padding: "4px 10px",
+                              borderRadius: "var(--aw-radius-sm)",
+                              border: "none",
+                              background: "var(--aw-primary)",
+                              color: "var(--aw-on-primary)",
+                              cursor: "pointer",
+                              fontSize: 12,
+                            }}
+                          >
+                            {t("actionConfirm")}
+                          </button>
+                          <button
+                            onClick={() => resolveAction(m.id, i, "dismissed")}
+                            style={{
+                              padding: "4px 10px",
+                              borderRadius: "var(--aw-radius-sm)",
+                              border: "1px solid var(--aw-border)",
+                              background: "transparent",
+                              cursor: "pointer",
+                              fontSize: 12,
+                            }}
+                          >
+                            {t("actionDismiss")}
+                          </button>
+                        </div>
+                      ) : null
+                    )}
+
+                    {products.length > 0 && (
+                      <div
+                        aria-label={t("recommended")}
+                        style={{ display: "flex", gap: 8, overflowX: "auto", maxWidth: "100%" }}
+                      >
+                        {products.map((p) => renderProductCard(p, m.id))}
+                      </div>
+                    )}
+
+                    <div style={{ fontSize: 11, color: "var(--aw-text-muted)" }}>
+                      {m.status === "sending" ? t("sending") : formatTime(m.createdAt)}
+                    </div>
+
+                    {/* quick replies only make sense for the latest reply */}
+                    {idx === history.length - 1 && !proactive && renderSuggestions(suggestions)}
+
+                    {m.status === "failed" && (
+                      <div
+                        role="alert"
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: 8,
+                          padding: "6px 10px",
+                          borderRadius: "var(--aw-radius)",
+                          background: "var(--aw-danger-bg)",
+                          color: "var(--aw-danger)",
+                          fontSize: 12,
+                        }}
+                      >
+                        <span>{t(CHAT_ERROR_MESSAGES[m.error ?? "network"])}</span>
+                        <button
+                          onClick={() =>
+                            handleSendMessage(m.content, {
+                              resendId: m.id,
+                              images: sentImagesRef.current.get(m.id),
+                            })
+                          }
+                          style={{
+                            padding: "4px 10px",
+                            borderRadius: "var(--aw-radius-sm)",
+                            border: "1px solid #fecaca",
+                            background: "var(--aw-surface)",
+                            color: "var(--aw-danger)",
+                            cursor: "pointer",
+                            fontSize: 12,
+                          }}
+                        >
+                          {t("retry")}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              {/* prompts from an engagement rule that opened the dialog */}
+              {proactive?.action === "open_chat" && (
+                <div style={{ display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 4 }}>
+                  {proactive.message && (
+                    <div
                       style={{
-                        marginTop: 8,
-                        padding: "6px 8px",
-                        borderRadius: 8,
-                        border: "none",
-                        background: "rgb(99,102,241)",
-                        color: "#fff",
-                        cursor: "pointer",
+                        background: "var(--aw-assistant-bubble)",
+                        padding: "8px 10px",
+                        borderRadius: "var(--aw-radius)",
                         fontSize: 13,
+                        maxWidth: "85%",
                       }}
-                      onClick={() => {
-                        alert(
-                          `Add-to-cart stub: implement pages/api/shopify-add-to-cart.ts to add ${p.title} to cart.`
-                        );
+                    >
+                      {proactive.message}
+                    </div>
+                  )}
+                  {renderSuggestions(proactive.suggestions ?? [])}
+                </div>
+              )}
+
+              {handoff && agentTyping && (
+                <div style={{ fontSize: 12, color: "var(--aw-text-muted)" }}>
+                  {t("handoffTyping", { name: handoff.agentName ?? t("handoffTeam") })}
+                </div>
+              )}
+            </div>
+
+            {attachError && (
+              <div role="alert" style={{ marginTop: 8, fontSize: 12, color: "var(--aw-danger)" }}>
+                {t(ATTACHMENT_ERROR_MESSAGES[attachError], {
+                  max: attachError === "count" ? MAX_IMAGES_PER_MESSAGE : MAX_SOURCE_IMAGE_BYTES / (1024 * 1024),
+                })}
+              </div>
+            )}
+
+            {attachEnabled && (pendingImages.length > 0 || preparingImages > 0) && (
+              <div style={{ marginTop: 8, display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+                {pendingImages.map((image, i) => (
+                  <div key={i} style={{ position: "relative" }}>
+                    <img
+                      src={image.preview.thumbnail}
+                      alt={image.preview.name ?? t("attachedImage")}
+                      width={ATTACHMENT_THUMB_SIZE}
+                      height={ATTACHMENT_THUMB_SIZE}
+                      style={{
+                        display: "block",
+                        objectFit: "cover",
+                        borderRadius: "var(--aw-radius-sm)",
+                        border: "1px solid var(--aw-border)",
+                      }}
+                    />
+                    <button
+                      title={t("removeImage")}
+                      aria-label={t("removeImage")}
+                      onClick={() => setPendingImages((p) => p.filter((_, k) => k !== i))}
+                      style={{
+                        position: "absolute",
+                        top: -6,
+                        insetInlineEnd: -6,
+                        width: 20,
+                        height: 20,
+                        padding: 0,
+                        borderRadius: "50%",
+                        border: "1px solid var(--aw-border)",
+                        background: "var(--aw-surface)",
+                        color: "var(--aw-text)",
+                        cursor: "pointer",
+                        display: "flex",
+                        alignItems: "center",
+                        justifyContent: "center",
                       }}
                     >
-                      Add
+                      <XIcon size={12} />
                     </button>
                   </div>
                 ))}
+                {preparingImages > 0 && (
+                  <span role="status" style={{ fontSize: 12, color: "var(--aw-text-muted)" }}>
+                    {t("preparingImage")}
+                  </span>
+                )}
               </div>
+            )}
+
+            <div style={{ marginTop: 12, display: "flex", gap: 8, alignItems: "center" }}>
+              {attachEnabled && (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ACCEPTED_IMAGE_TYPES.join(",")}
+                    multiple
+                    onChange={onPickImages}
+                    hidden
+                  />
+                  <button
+                    title={t("attachImage")}
+                    aria-label={t("attachImage")}
+                    onClick={() => fileInputRef.current?.click()}
+                    style={ICON_BUTTON}
+                  >
+                    <ImagePlus size={16} />
+                  </button>
+                  {/* phones open the camera straight away */}
+                  {isMobile && (
+                    <>
+                      <input
+                        ref={cameraInputRef}
+                        type="file"
+                        accept="image/*"
+                        capture="environment"
+                        onChange={onPickImages}
+                        hidden
+                      />
+                      <button
+                        title={t("takePhoto")}
+                        aria-label={t("takePhoto")}
+                        onClick={() => cameraInputRef.current?.click()}
+                        style={ICON_BUTTON}
+                      >
+                        <Camera size={16} />
+                      </button>
+                    </>
+                  )}
+                </>
+              )}
+              <input
+                ref={composerRef}
+                type="text"
+                placeholder={t("composerPlaceholder")}
+                onInput={notifyTyping}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") submitComposer();
+                }}
+                onPaste={(e) => {
+                  const files = imageFiles(e.clipboardData.files);
+                  if (!attachEnabled || !files.length) return;
+                  // a pasted screenshot shouldn't also paste its file name
+                  e.preventDefault();
+                  addImages(files);
+                }}
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  padding: "10px 12px",
+                  borderRadius: "var(--aw-radius)",
+                  border: "1px solid var(--aw-border)",
+                }}
+              />
+              <button
+                title={t("send")}
+                onClick={submitComposer}
+                disabled={preparingImages > 0}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: "var(--aw-radius)",
+                  border: "none",
+                  background: "var(--aw-primary)",
+                  color: "var(--aw-on-primary)",
+                  cursor: preparingImages > 0 ? "default" : "pointer",
+                  opacity: preparingImages > 0 ? 0.6 : 1,
+                }}
+              >
+                {t("send")}
+              </button>
             </div>
-          ) : null}
-        </div>
-      )}
+          </div>
+        )}
 
-      {/* hidden audio/video elements */}
-      <audio ref={audioRef} style={{ display: "none" }} />
-      <video ref={videoRef} style={{ display: "none" }} playsInline />
+        {/* hidden audio/video elements */}
+        <audio ref={audioRef} style={{ display: "none" }} />
+        <video ref={videoRef} style={{ display: "none" }} playsInline />
 
-      {/* small helper button */}
-      <div style={{ position: "fixed", right: 30, bottom: 8, zIndex: 9999 }}>
-        <button
-          onClick={() => setOpen((o) => !o)}
-          title="Open chat (Ctrl/Cmd+K)"
+        {/* small helper button */}
+        <div
           style={{
-            background: "transparent",
-            border: "none",
-            cursor: "pointer",
-            pointerEvents: "auto",
+            position: "fixed",
+            ...cornerOffset(position, "calc(var(--aw-offset-x) + 2px)"),
+            ...edgeOffset(position, 8),
+            zIndex: 9999,
           }}
         >
-          <MessageSquare size={18} />
-        </button>
+          <button
+            onClick={() => setOpen((o) => !o)}
+            title={t("openChatShortcut")}
+            aria-label={t("openChatShortcut")}
+            aria-expanded={open}
+            aria-haspopup="dialog"
+            style={{
+              background: "transparent",
+              border: "none",
+              cursor: "pointer",
+              pointerEvents: "auto",
+            }}
+          >
+            <MessageSquare size={18} />
+          </button>
+        </div>
       </div>
-    </div>
+    </MotionConfig>
   );
 }
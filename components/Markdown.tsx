@@ -0,0 +1,84 @@
+// components/Markdown.tsx
+import React, { useMemo } from "react";
+import { Block, Inline, parseMarkdown } from "../lib/markdown";
+
+/**
+ * Renders assistant text through the Markdown subset in lib/markdown.ts.
+ * Everything becomes React elements; no HTML from the reply reaches the DOM.
+ */
+
+const codeStyle: React.CSSProperties = {
+  fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+  fontSize: 12,
+  background: "var(--aw-border, rgba(16,24,40,0.06))",
+  borderRadius: 4,
+  padding: "1px 4px",
+};
+
+function renderInline(nodes: Inline[]): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "code":
+        return (
+          <code key={i} style={codeStyle}>
+            {node.text}
+          </code>
+        );
+      case "link":
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target={node.href.startsWith("/") ? undefined : "_blank"}
+            rel="noopener noreferrer"
+            style={{ color: "var(--aw-primary-strong, rgb(79,70,229))", textDecoration: "underline" }}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case "br":
+        return <br key={i} />;
+    }
+  });
+}
+
+function renderBlock(block: Block, i: number) {
+  if (block.type === "code") {
+    return (
+      <pre
+        key={i}
+        style={{ ...codeStyle, display: "block", padding: 8, margin: 0, overflowX: "auto", whiteSpace: "pre" }}
+      >
+        {block.text}
+      </pre>
+    );
+  }
+  if (block.type === "list") {
+    const List = block.ordered ? "ol" : "ul";
+    return (
+      <List key={i} style={{ margin: 0, paddingInlineStart: 18 }}>
+        {block.items.map((item, j) => (
+          <li key={j}>{renderInline(item)}</li>
+        ))}
+      </List>
+    );
+  }
+  return (
+    <p key={i} style={{ margin: 0 }}>
+      {renderInline(block.children)}
+    </p>
+  );
+}
+
+export default function Markdown({ text }: { text: string }): JSX.Element {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>{blocks.map(renderBlock)}</div>
+  );
+}
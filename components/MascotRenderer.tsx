@@ -0,0 +1,240 @@
+// components/MascotRenderer.tsx
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Mascot, MascotSprite, posterFor, posterSrcSet } from "../lib/mascots";
+import { MascotState, clipForState, spriteAnimationForState } from "../lib/mascotAnimation";
+import {
+  MascotMetrics,
+  drawSpriteFrame,
+  mascotAssets,
+  measureMascotLoad,
+  prefetchAssets,
+  reportMascotMetrics,
+  spriteFrameAt,
+  usePlaybackVisible,
+} from "../lib/mascotRendering";
+
+/**
+ * Draws the mascot for an animation state: a sprite sheet on a canvas, a
+ * video clip, or just the poster. One element per mascot is kept for the
+ * whole session; clips and animations switch in place. Playback pauses while
+ * the tab is hidden or the widget is off screen, and the active mascot's
+ * other clips are prefetched once its first one has loaded.
+ */
+
+type MetricsPatch = Partial<Omit<MascotMetrics, "mascotId" | "renderer">>;
+
+type MascotRendererProps = {
+  mascot: Mascot;
+  state: MascotState;
+  /** Rendered size in CSS pixels (the theme's mascotSize), for poster and canvas resolution. */
+  size: number;
+  debug?: boolean;
+};
+
+const frameStyle: React.CSSProperties = {
+  display: "block",
+  width: "var(--aw-mascot-size)",
+  height: "var(--aw-mascot-size)",
+  objectFit: "cover",
+  borderRadius: "var(--aw-radius)",
+  boxShadow: "0 6px 18px rgba(0,0,0,0.18)",
+  zIndex: 3,
+};
+
+const DROPPED_FRAMES_INTERVAL_MS = 5000;
+const FRAME_COST_INTERVAL_MS = 5000;
+
+export default function MascotRenderer({ mascot, state, size, debug = false }: MascotRendererProps): JSX.Element {
+  const ref = useRef<HTMLDivElement | null>(null);
+  const playing = usePlaybackVisible(ref);
+  const clip = clipForState(mascot, state);
+  const renderer: MascotMetrics["renderer"] = mascot.sprite ? "sprite" : clip ? "video" : "poster";
+
+  const metricsRef = useRef<MascotMetrics>({ mascotId: mascot.id, renderer });
+  if (metricsRef.current.mascotId !== mascot.id) metricsRef.current = { mascotId: mascot.id, renderer };
+
+  const report = useCallback(
+    (patch: MetricsPatch) => {
+      metricsRef.current = { ...metricsRef.current, ...patch };
+      reportMascotMetrics(ref.current, metricsRef.current, debug);
+    },
+    [debug]
+  );
+
+  const mascotRef = useRef(mascot);
+  mascotRef.current = mascot;
+  // the first asset has the network to itself; the rest follow when idle
+  const onLoaded = useCallback(
+    (url: string, loadMs: number) => {
+      report({ loadMs });
+      prefetchAssets(mascotAssets(mascotRef.current).filter((asset) => asset !== url));
+    },
+    [report]
+  );
+
+  return (
+    <div ref={ref} data-mascot-renderer={renderer} style={{ display: "flex" }}>
+      {mascot.sprite ? (
+        <SpriteMascot
+          key={mascot.id}
+          title={mascot.title}
+          sprite={mascot.sprite}
+          state={state}
+          size={size}
+          playing={playing}
+          onLoaded={onLoaded}
+          report={report}
+        />
+      ) : clip ? (
+        <VideoMascot
+          key={mascot.id}
+          mascot={mascot}
+          src={clip}
+          size={size}
+          playing={playing}
+          onLoaded={onLoaded}
+          report={report}
+        />
+      ) : (
+        <img
+          src={posterFor(mascot, size)}
+          srcSet={posterSrcSet(mascot)}
+          sizes={`${size}px`}
+          alt={mascot.title}
+          decoding="async"
+          style={frameStyle}
+        />
+      )}
+    </div>
+  );
+}
+
+type VideoMascotProps = {
+  mascot: Mascot;
+  src: string;
+  size: number;
+  playing: boolean;
+  onLoaded: (url: string, loadMs: number) => void;
+  report: (patch: MetricsPatch) => void;
+};
+
+function VideoMascot({ mascot, src, size, playing, onLoaded, report }: VideoMascotProps): JSX.Element {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  /* Switch clips on the same element instead of remounting it */
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el || el.getAttribute("src") === src) return;
+    const startedAt = performance.now();
+    const loaded = () => onLoaded(src, measureMascotLoad(startedAt));
+    el.addEventListener("loadeddata", loaded, { once: true });
+    el.muted = true;
+    el.src = src;
+    return () => el.removeEventListener("loadeddata", loaded);
+  }, [src, onLoaded]);
+
+  /* Play only while visible */
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el) return;
+    if (playing) el.play().catch(() => {});
+    else el.pause();
+  }, [playing, src]);
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!playing || !el?.getVideoPlaybackQuality) return;
+    const timer = setInterval(
+      () => report({ droppedFrames: el.getVideoPlaybackQuality().droppedVideoFrames }),
+      DROPPED_FRAMES_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, [playing, report]);
+
+  return (
+    <video ref={videoRef} poster={posterFor(mascot, size)} loop muted playsInline preload="auto" style={frameStyle} />
+  );
+}
+
+type SpriteMascotProps = {
+  title: string;
+  sprite: MascotSprite;
+  state: MascotState;
+  size: number;
+  playing: boolean;
+  onLoaded: (url: string, loadMs: number) => void;
+  report: (patch: MetricsPatch) => void;
+};
+
+function SpriteMascot({ title, sprite, state, size, playing, onLoaded, report }: SpriteMascotProps): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [sheet, setSheet] = useState<HTMLImageElement | null>(null);
+  const animation = spriteAnimationForState(sprite, state);
+
+  /* Decode the sheet off the main thread before the first draw */
+  useEffect(() => {
+    let cancelled = false;
+    const startedAt = performance.now();
+    const img = new Image();
+    img.src = sprite.sheet;
+    img
+      .decode()
+      .then(() => {
+        if (cancelled) return;
+        setSheet(img);
+        onLoaded(sprite.sheet, measureMascotLoad(startedAt));
+      })
+      .catch(() => {
+        if (!cancelled) console.warn(`[mascot] could not load sprite sheet ${sprite.sheet}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sprite.sheet, onLoaded]);
+
+  /* Draw frames on animation frames; only when the frame changes, only while visible */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !sheet) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size * dpr);
+    canvas.height = Math.round(size * dpr);
+
+    const startedAt = performance.now();
+    const lastFrame = animation.from + animation.frames - 1;
+    let drawn = -1;
+    let cost = 0;
+    let draws = 0;
+    let raf = 0;
+
+    const tick = (now: number) => {
+      const frame = spriteFrameAt(sprite, animation, now - startedAt);
+      if (frame !== drawn) {
+        const t0 = performance.now();
+        drawSpriteFrame(ctx, sheet, sprite, frame);
+        cost += performance.now() - t0;
+        draws += 1;
+        drawn = frame;
+      }
+      // a finished one-shot animation holds its last frame without a loop
+      const done = animation.loop === false && frame === lastFrame;
+      if (playing && !done) raf = requestAnimationFrame(tick);
+    };
+    tick(startedAt);
+
+    const flush = () => {
+      if (draws) report({ frameMs: cost / draws });
+      cost = 0;
+      draws = 0;
+    };
+    const timer = setInterval(flush, FRAME_COST_INTERVAL_MS);
+    return () => {
+      cancelAnimationFrame(raf);
+      clearInterval(timer);
+      flush();
+    };
+  }, [sheet, sprite, animation, playing, size, report]);
+
+  return <canvas ref={canvasRef} role="img" aria-label={title} style={frameStyle} />;
+}
@@ -0,0 +1,120 @@
+// embed/index.tsx
+import React from "react";
+import { createRoot, Root } from "react-dom/client";
+import AvatarWidget from "../components/AvatarWidget";
+import { AvatarWidgetConfig, parsePosition } from "../lib/widgetConfig";
+import { PageContext, setHostContext } from "../lib/pageContext";
+import { themeFromDataset } from "../lib/theme";
+
+/**
+ * Standalone entry for Shopify themes (built by scripts/build-embed.mjs).
+ *
+ *   <script src="https://your-app.vercel.app/embed/avatar-widget.js"
+ *           data-shop="demo-shop.myshopify.com"
+ *           data-api="https://your-app.vercel.app/api/chat"
+ *           data-mascot="mascot-2"
+ *           data-position="bottom-left"
+ *           data-session-idle-minutes="30"
+ *           data-mascot-manifest="https://cdn.example.com/mascots.json"
+ *           data-locale="fr"
+ *           data-analytics="off"
+ *           data-analytics-include-text="true"
+ *           data-server-tts="true"
+ *           data-handoff="true"
+ *           data-avoid-selector=".cart__checkout-button"
+ *           data-theme="midnight"
+ *           data-primary-color="#0f766e" defer></script>
+ *
+ * Other theme attributes (lib/theme.ts): data-color-scheme, data-font,
+ * data-radius, data-mascot-size, data-dialog-width, data-offset-x,
+ * data-offset-y, data-mobile-fullscreen.
+ *
+ * The widget renders inside a Shadow DOM so theme CSS and ours can't leak
+ * into each other.
+ *
+ * Widget analytics events are also dispatched on window:
+ *
+ *   window.addEventListener("academic-avatar:event", (e) => console.log(e.detail));
+ *
+ * Themes can tell the assistant what the shopper is looking at (see
+ * lib/pageContext.ts):
+ *
+ *   AcademicAvatarWidget.setContext({ pageType: "product", product: { handle: "trail-runner" } });
+ */
+
+const HOST_ID = "academic-avatar-widget";
+// custom tag name so theme selectors like `div { ... }` don't match the host
+const HOST_TAG = "academic-avatar-widget";
+
+let root: Root | null = null;
+
+function readConfig(script: HTMLScriptElement | null): AvatarWidgetConfig {
+  const data = script?.dataset ?? {};
+  let apiEndpoint = data.api;
+  // default to the /api/chat route of the deployment that served this script
+  if (!apiEndpoint && script?.src) {
+    apiEndpoint = new URL("/api/chat", script.src).toString();
+  }
+  return {
+    shop: data.shop || undefined,
+    apiEndpoint,
+    defaultMascotId: data.mascot || undefined,
+    position: parsePosition(data.position),
+    sessionIdleMinutes: Number(data.sessionIdleMinutes) || undefined,
+    mascotManifestUrl: data.mascotManifest || undefined,
+    locale: data.locale || document.documentElement.lang || undefined,
+    analytics: data.analytics === "off" ? false : undefined,
+    analyticsIncludeText: data.analyticsIncludeText === "true" || undefined,
+    serverTts: data.serverTts ? data.serverTts === "true" : undefined,
+    handoff: data.handoff ? data.handoff === "true" : undefined,
+    avoidSelector: data.avoidSelector || undefined,
+    theme: themeFromDataset(data),
+  };
+}
+
+export function mount(config: AvatarWidgetConfig): void {
+  if (document.getElementById(HOST_ID)) return;
+
+  const host = document.createElement(HOST_TAG);
+  host.id = HOST_ID;
+  document.body.appendChild(host);
+
+  const shadow = host.attachShadow({ mode: "open" });
+  const style = document.createElement("style");
+  // reset inherited theme styles at the shadow boundary
+  style.textContent = `
+    :host { all: initial; }
+    .aw-root { font-family: system-ui, -apple-system, "Segoe UI", Roboto, Arial, sans-serif;
+      color: #111827; font-size: 14px; line-height: 1.4; font-weight: 400; font-style: normal;
+      letter-spacing: normal; text-align: left; text-transform: none; }
+    .aw-root *, .aw-root *::before, .aw-root *::after { box-sizing: border-box; }
+  `;
+  const container = document.createElement("div");
+  container.className = "aw-root";
+  shadow.append(style, container);
+
+  root = createRoot(container);
+  root.render(<AvatarWidget {...config} />);
+}
+
+export function unmount(): void {
+  root?.unmount();
+  root = null;
+  document.getElementById(HOST_ID)?.remove();
+}
+
+const currentScript = document.currentScript as HTMLScriptElement | null;
+const config = readConfig(currentScript);
+
+if (document.readyState === "loading") {
+  document.addEventListener("DOMContentLoaded", () => mount(config), { once: true });
+} else {
+  mount(config);
+}
+
+/** Merge page context for the next messages; null clears what was set. */
+export function setContext(ctx: Partial<PageContext> | null): void {
+  setHostContext(ctx);
+}
+
+(window as any).AcademicAvatarWidget = { mount, unmount, setContext };
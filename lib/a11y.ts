@@ -0,0 +1,117 @@
+// lib/a11y.ts
+import { RefObject, useEffect, useRef } from "react";
+
+/**
+ * Accessibility helpers for the widget: modal dialog focus management and
+ * caption text for spoken replies.
+ *
+ * The widget may render inside a shadow root (embed/index.tsx), where
+ * document.activeElement is the host element, so focus is always read from
+ * the root node the dialog lives in.
+ */
+
+const FOCUSABLE = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "[tabindex]:not([tabindex='-1'])",
+].join(",");
+
+/** The focused element as seen from inside `node`'s document or shadow root. */
+export function activeElementIn(node: Node | null): Element | null {
+  if (!node || typeof document === "undefined") return null;
+  const root = node.getRootNode() as Document | ShadowRoot;
+  return root.activeElement ?? document.activeElement;
+}
+
+export function focusableElements(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+    (el) => !el.hidden && el.getClientRects().length > 0
+  );
+}
+
+/** Keep Tab / Shift+Tab cycling inside `container`. */
+export function trapTab(e: KeyboardEvent, container: HTMLElement) {
+  if (e.key !== "Tab") return;
+  const items = focusableElements(container);
+  if (!items.length) {
+    e.preventDefault();
+    return;
+  }
+  const first = items[0];
+  const last = items[items.length - 1];
+  const active = activeElementIn(container);
+  if (e.shiftKey && (active === first || !container.contains(active))) {
+    e.preventDefault();
+    last.focus();
+  } else if (!e.shiftKey && (active === last || !container.contains(active))) {
+    e.preventDefault();
+    first.focus();
+  }
+}
+
+/**
+ * Modal dialog focus: while `open`, focus `initialFocus` (or the first
+ * focusable element), trap Tab inside the dialog and close it on Escape.
+ * When it closes, focus returns to whatever had it before it opened.
+ * `autoFocus` returning false leaves focus where it is, for dialogs the
+ * shopper didn't open themselves.
+ */
+export function useDialogFocus(
+  open: boolean,
+  dialogRef: RefObject<HTMLElement>,
+  initialFocusRef: RefObject<HTMLElement>,
+  onClose: () => void,
+  autoFocus: () => boolean = () => true
+) {
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+  const autoFocusRef = useRef(autoFocus);
+  autoFocusRef.current = autoFocus;
+  const mountedRef = useRef(false);
+
+  useEffect(() => {
+    // a dialog restored open on page load doesn't steal focus from the page
+    const restored = !mountedRef.current;
+    mountedRef.current = true;
+    const dialog = dialogRef.current;
+    if (!open || !dialog) return;
+    const trigger = restored ? null : (activeElementIn(dialog) as HTMLElement | null);
+    if (!restored && autoFocusRef.current()) {
+      (initialFocusRef.current ?? focusableElements(dialog)[0])?.focus();
+    }
+
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === "Escape") {
+        e.stopPropagation();
+        onCloseRef.current();
+        return;
+      }
+      trapTab(e, dialog!);
+    }
+    dialog.addEventListener("keydown", onKeyDown);
+    return () => {
+      dialog.removeEventListener("keydown", onKeyDown);
+      // only restore focus if it hasn't already moved somewhere on purpose
+      const active = activeElementIn(trigger);
+      const lost = !active || active === document.body || dialog.contains(active) || !active.isConnected;
+      if (trigger?.isConnected && lost) trigger.focus();
+    };
+  }, [open, dialogRef, initialFocusRef]);
+}
+
+/**
+ * The sentence of `text` being spoken at `charIndex` (from a
+ * SpeechSynthesisUtterance boundary event), for captions that follow TTS.
+ */
+export function captionAt(text: string, charIndex: number): string {
+  const sentences = text.match(/[^.!?\n]+[.!?]*\s*/g) ?? [text];
+  let end = 0;
+  for (const sentence of sentences) {
+    end += sentence.length;
+    if (charIndex < end) return sentence.trim();
+  }
+  return sentences[sentences.length - 1].trim();
+}
@@ -0,0 +1,199 @@
+// lib/analytics.ts
+/**
+ * Widget analytics: a typed event bus with pluggable sinks.
+ *
+ * Every event is wrapped in a versioned envelope ({ schema, name, at,
+ * sessionId, shop, props }). Props never carry message text unless the
+ * merchant opted in (`includeText`); the bus strips `text` otherwise.
+ *
+ * Sinks shipped here:
+ * - windowSink: re-dispatches every event as an "academic-avatar:event"
+ *   CustomEvent on window, for host-page listeners
+ * - callbackSink: calls a function (the widget's onEvent prop)
+ * - createBeaconSink: batches events and beacons them to /api/events
+ */
+
+export const ANALYTICS_SCHEMA_VERSION = 1;
+
+export const WINDOW_EVENT_NAME = "academic-avatar:event";
+
+export const EVENTS_ENDPOINT = "/api/events";
+
+export type MessageInput = "text" | "voice" | "suggestion";
+
+/** Event name → props. Bump ANALYTICS_SCHEMA_VERSION on breaking changes. */
+export type AnalyticsEventMap = {
+  widget_open: Record<string, never>;
+  widget_close: Record<string, never>;
+  mascot_switch: { from: string; to: string };
+  message_sent: { input: MessageInput; length: number; images: number; resend: boolean; text?: string };
+  reply_received: {
+    latencyMs: number;
+    firstTokenMs?: number;
+    streamed: boolean;
+    productCount: number;
+    actionCount: number;
+    text?: string;
+  };
+  chat_error: { kind: string; latencyMs: number };
+  product_impression: { productId: string };
+  product_click: { productId: string };
+  add_to_cart: { productId: string; variantId?: number; ok: boolean };
+  action_resolved: { type: string; status: string };
+  voice_error: { code: string };
+  attachment_rejected: { reason: string };
+  engagement_triggered: { ruleId: string; trigger: string; action: string };
+  engagement_dismissed: { ruleId: string };
+  handoff_started: { trigger: string };
+  handoff_agent_joined: { waitMs: number };
+  handoff_ended: { by: string; durationMs: number };
+};
+
+export type AnalyticsEventName = keyof AnalyticsEventMap;
+
+export const ANALYTICS_EVENT_NAMES: AnalyticsEventName[] = [
+  "widget_open",
+  "widget_close",
+  "mascot_switch",
+  "message_sent",
+  "reply_received",
+  "chat_error",
+  "product_impression",
+  "product_click",
+  "add_to_cart",
+  "action_resolved",
+  "voice_error",
+  "attachment_rejected",
+  "engagement_triggered",
+  "engagement_dismissed",
+  "handoff_started",
+  "handoff_agent_joined",
+  "handoff_ended",
+];
+
+export type AnalyticsEvent<N extends AnalyticsEventName = AnalyticsEventName> = {
+  schema: number;
+  name: N;
+  /** Epoch ms. */
+  at: number;
+  sessionId?: string;
+  shop?: string;
+  props: AnalyticsEventMap[N];
+};
+
+export type AnalyticsSink = {
+  send(event: AnalyticsEvent): void;
+  dispose?(): void;
+};
+
+export type EventBus = {
+  emit<N extends AnalyticsEventName>(name: N, props: AnalyticsEventMap[N]): void;
+  /** Add a sink; returns a function that removes it. */
+  addSink(sink: AnalyticsSink): () => void;
+  dispose(): void;
+};
+
+export type EventBusOptions = {
+  /** Session id and shop stamped on every event, read at emit time. */
+  envelope: () => { sessionId?: string; shop?: string };
+  /** Merchant opt-in to include message text in events. */
+  includeText?: boolean;
+};
+
+export function createEventBus({ envelope, includeText = false }: EventBusOptions): EventBus {
+  const sinks = new Set<AnalyticsSink>();
+  return {
+    emit(name, props) {
+      let safeProps = props;
+      if (!includeText && "text" in props) {
+        const { text: _text, ...rest } = props as { text?: string };
+        safeProps = rest as typeof props;
+      }
+      const event: AnalyticsEvent = {
+        schema: ANALYTICS_SCHEMA_VERSION,
+        name,
+        at: Date.now(),
+        ...envelope(),
+        props: safeProps,
+      };
+      sinks.forEach((sink) => {
+        try {
+          sink.send(event);
+        } catch (err) {
+          // a broken subscriber must not break the widget
+          console.warn("analytics sink error", err);
+        }
+      });
+    },
+    addSink(sink) {
+      sinks.add(sink);
+      return () => {
+        sinks.delete(sink);
+        sink.dispose?.();
+      };
+    },
+    dispose() {
+      sinks.forEach((sink) => sink.dispose?.());
+      sinks.clear();
+    },
+  };
+}
+
+export const windowSink: AnalyticsSink = {
+  send(event) {
+    window.dispatchEvent(new CustomEvent(WINDOW_EVENT_NAME, { detail: event }));
+  },
+};
+
+export function callbackSink(callback: (event: AnalyticsEvent) => void): AnalyticsSink {
+  return { send: callback };
+}
+
+export type BeaconSinkOptions = {
+  maxBatch?: number;
+  flushIntervalMs?: number;
+};
+
+/**
+ * Queue events and POST them to `url` as { events } in batches: when the
+ * batch is full, every flushIntervalMs, and when the page is hidden or
+ * unloaded (navigator.sendBeacon, so the last batch survives navigation).
+ * Sent as text/plain so cross-origin beacons need no preflight.
+ */
+export function createBeaconSink(
+  url: string,
+  { maxBatch = 20, flushIntervalMs = 5000 }: BeaconSinkOptions = {}
+): AnalyticsSink {
+  let queue: AnalyticsEvent[] = [];
+
+  function flush() {
+    if (!queue.length) return;
+    const body = JSON.stringify({ events: queue });
+    queue = [];
+    const blob = new Blob([body], { type: "text/plain;charset=UTF-8" });
+    if (navigator.sendBeacon?.(url, blob)) return;
+    fetch(url, { method: "POST", body, keepalive: true, headers: { "Content-Type": "text/plain" } }).catch(
+      () => {}
+    );
+  }
+
+  const onHidden = () => {
+    if (document.visibilityState === "hidden") flush();
+  };
+  const timer = setInterval(flush, flushIntervalMs);
+  document.addEventListener("visibilitychange", onHidden);
+  window.addEventListener("pagehide", flush);
+
+  return {
+    send(event) {
+      queue.push(event);
+      if (queue.length >= maxBatch) flush();
+    },
+    dispose() {
+      flush();
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", onHidden);
+      window.removeEventListener("pagehide", flush);
+    },
+  };
+}
@@ -0,0 +1,243 @@
+// lib/attachments.ts
+/**
+ * Image attachments for visual product search ("do you have something like
+ * this?"), shared by the widget and /api/chat.
+ *
+ * The widget resizes and re-encodes every picked, pasted, dropped or
+ * captured image as a JPEG before sending it, and keeps a small thumbnail
+ * for the transcript. Images travel in the chat request as
+ *
+ *   attachments: [{ type: "image", mimeType: "image/jpeg", data: "<base64>", width, height }]
+ *
+ * and /api/chat checks the same limits again before forwarding them. When
+ * it refuses one, its error body carries a code from ATTACHMENT_ERROR_CODES,
+ * which reaches the widget as ChatClientError kind "attachment"
+ * (lib/chatClient.ts).
+ */
+
+export const MAX_IMAGES_PER_MESSAGE = 3;
+
+/** Largest file the widget will try to shrink. */
+export const MAX_SOURCE_IMAGE_BYTES = 20 * 1024 * 1024;
+
+/** Largest encoded image sent to the backend. */
+export const MAX_IMAGE_BYTES = 1024 * 1024;
+
+/**
+ * Body size /api/chat accepts: MAX_IMAGES_PER_MESSAGE images as base64 plus
+ * room for the message, history and page context. Stays under the 4.5 MB
+ * request limit of serverless hosts such as Vercel.
+ */
+export const MAX_CHAT_REQUEST_BYTES = MAX_IMAGES_PER_MESSAGE * Math.ceil(MAX_IMAGE_BYTES / 3) * 4 + 64 * 1024;
+
+/** Files the widget accepts from the shopper. */
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+/** Encodings /api/chat forwards; the widget always sends JPEG. */
+const SENDABLE_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// tried in order until the image fits MAX_IMAGE_BYTES
+const ENCODINGS = [
+  { maxSide: 1280, quality: 0.82 },
+  { maxSide: 1024, quality: 0.7 },
+  { maxSide: 768, quality: 0.6 },
+];
+const THUMBNAIL = { maxSide: 160, quality: 0.7 };
+
+export type ChatAttachment = {
+  type: "image";
+  mimeType: string;
+  /** Base64, without a data: prefix. */
+  data: string;
+  width: number;
+  height: number;
+  name?: string;
+};
+
+/** What the transcript keeps of a sent image; small enough for localStorage. */
+export type TranscriptImage = {
+  /** data: URL of a small JPEG. */
+  thumbnail: string;
+  width: number;
+  height: number;
+  name?: string;
+};
+
+export type PreparedImage = {
+  attachment: ChatAttachment;
+  preview: TranscriptImage;
+};
+
+export type AttachmentErrorCode = "type" | "size" | "count" | "unreadable";
+
+/** `code` in /api/chat's error body when it refuses an attachment. */
+export const ATTACHMENT_ERROR_CODES: Record<AttachmentErrorCode, string> = {
+  type: "attachment_type",
+  size: "attachment_too_large",
+  count: "attachment_count",
+  unreadable: "attachment_invalid",
+};
+
+export class AttachmentError extends Error {
+  code: AttachmentErrorCode;
+  constructor(code: AttachmentErrorCode, message: string) {
+    super(message);
+    this.name = "AttachmentError";
+    this.code = code;
+  }
+}
+
+/** Decoded size of a base64 string. */
+export function base64Bytes(data: string): number {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/* In the browser */
+
+async function decodeImage(file: Blob): Promise<{ source: CanvasImageSource; width: number; height: number }> {
+  if (typeof createImageBitmap === "function") {
+    const bitmap = await createImageBitmap(file);
+    return { source: bitmap, width: bitmap.width, height: bitmap.height };
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function encodeJpeg(
+  image: { source: CanvasImageSource; width: number; height: number },
+  { maxSide, quality }: { maxSide: number; quality: number }
+): { dataUrl: string; width: number; height: number } {
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new AttachmentError("unreadable", "Canvas is not available");
+  // JPEG has no transparency: put transparent PNG areas on white, not black
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image.source, 0, 0, width, height);
+  return { dataUrl: canvas.toDataURL("image/jpeg", quality), width, height };
+}
+
+/**
+ * Check a file the shopper picked and shrink it for sending. Throws an
+ * AttachmentError for unsupported types, files too large to handle and
+ * images the browser can't decode.
+ */
+export async function prepareImage(file: File): Promise<PreparedImage> {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new AttachmentError("type", `${file.type || "This file"} is not a supported image`);
+  }
+  if (file.size > MAX_SOURCE_IMAGE_BYTES) {
+    throw new AttachmentError("size", `${file.name} is larger than ${MAX_SOURCE_IMAGE_BYTES} bytes`);
+  }
+
+  let image: Awaited<ReturnType<typeof decodeImage>>;
+  try {
+    image = await decodeImage(file);
+  } catch {
+    throw new AttachmentError("unreadable", `${file.name} could not be decoded`);
+  }
+
+  try {
+    for (const encoding of ENCODINGS) {
+      const encoded = encodeJpeg(image, encoding);
+      const data = encoded.dataUrl.slice(encoded.dataUrl.indexOf(",") + 1);
+      if (base64Bytes(data) > MAX_IMAGE_BYTES) continue;
+      const thumbnail = encodeJpeg(image, THUMBNAIL);
+      const name = file.name || undefined;
+      return {
+        attachment: { type: "image", mimeType: "image/jpeg", data, width: encoded.width, height: encoded.height, name },
+        preview: { thumbnail: thumbnail.dataUrl, width: encoded.width, height: encoded.height, name },
+      };
+    }
+    throw new AttachmentError("size", `${file.name} is still too large after compression`);
+  } finally {
+    if (typeof ImageBitmap !== "undefined" && image.source instanceof ImageBitmap) image.source.close();
+  }
+}
+
+/** Image files in a paste or drop, in order. */
+export function imageFiles(files: FileList | null | undefined): File[] {
+  return Array.from(files ?? []).filter((f) => f.type.startsWith("image/"));
+}
+
+/* On the server */
+
+export type AttachmentValidation =
+  | { attachments: ChatAttachment[] }
+  | { status: 400 | 413 | 415; code: string; error: string };
+
+// first bytes of each encoding, so a renamed file can't pass as an image
+function sniffImageType(data: string): string | null {
+  let head: string;
+  try {
+    // 16 base64 characters are the first 12 bytes
+    head = atob(data.slice(0, 16));
+  } catch {
+    return null;
+  }
+  if (head.startsWith("\xff\xd8\xff")) return "image/jpeg";
+  if (head.startsWith("\x89PNG")) return "image/png";
+  if (head.startsWith("RIFF") && head.slice(8, 12) === "WEBP") return "image/webp";
+  return null;
+}
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/** Check `attachments` from a chat request against the limits above. */
+export function validateAttachments(raw: unknown): AttachmentValidation {
+  if (raw == null) return { attachments: [] };
+  if (!Array.isArray(raw)) {
+    return { status: 400, code: ATTACHMENT_ERROR_CODES.unreadable, error: "attachments must be a list" };
+  }
+  if (raw.length > MAX_IMAGES_PER_MESSAGE) {
+    return {
+      status: 413,
+      code: ATTACHMENT_ERROR_CODES.count,
+      error: `At most ${MAX_IMAGES_PER_MESSAGE} images per message`,
+    };
+  }
+  const attachments: ChatAttachment[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const a = raw[i];
+    if (!a || a.type !== "image" || typeof a.data !== "string" || !BASE64.test(a.data)) {
+      return { status: 400, code: ATTACHMENT_ERROR_CODES.unreadable, error: `attachments[${i}] is not a base64 image` };
+    }
+    if (base64Bytes(a.data) > MAX_IMAGE_BYTES) {
+      return {
+        status: 413,
+        code: ATTACHMENT_ERROR_CODES.size,
+        error: `attachments[${i}] is larger than ${MAX_IMAGE_BYTES} bytes`,
+      };
+    }
+    const mimeType = sniffImageType(a.data);
+    if (!mimeType || !SENDABLE_IMAGE_TYPES.includes(mimeType) || (a.mimeType && a.mimeType !== mimeType)) {
+      return {
+        status: 415,
+        code: ATTACHMENT_ERROR_CODES.type,
+        error: `attachments[${i}] must be a JPEG, PNG or WebP image`,
+      };
+    }
+    attachments.push({
+      type: "image",
+      mimeType,
+      data: a.data,
+      width: Number(a.width) || 0,
+      height: Number(a.height) || 0,
+      name: typeof a.name === "string" ? a.name.slice(0, 200) : undefined,
+    });
+  }
+  return { attachments };
+}
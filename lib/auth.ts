@@ -0,0 +1,26 @@
+// lib/auth.ts
+import { createHash, timingSafeEqual } from "crypto";
+
+/**
+ * Bearer token checks for the admin and agent API routes.
+ *
+ * A route without its token configured is closed. For local development,
+ * ALLOW_DEV_AUTH=true opens it to any bearer token, and only outside
+ * production.
+ */
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function devAuthAllowed(): boolean {
+  return process.env.ALLOW_DEV_AUTH === "true" && process.env.NODE_ENV !== "production";
+}
+
+/** Whether the Authorization header carries `token`, compared in constant time. */
+export function bearerMatches(header: string | undefined, token: string | undefined): boolean {
+  if (!token) return devAuthAllowed();
+  if (!header) return false;
+  // hashing first gives equal-length buffers without leaking the token's length
+  return timingSafeEqual(digest(header), digest(`Bearer ${token}`));
+}
@@ -0,0 +1,97 @@
+// lib/cart.ts
+/**
+ * Cart types shared by the widget and /api/shopify-add-to-cart.
+ *
+ * On a Shopify storefront the widget adds to the theme's own cart through
+ * /cart/add.js instead, so the store's cart page and the widget show the
+ * same items.
+ */
+
+export type CartLine = {
+  variant_id: number | string;
+  quantity: number;
+  title?: string;
+  price?: string;
+};
+
+export type Cart = {
+  id: string;
+  lines: CartLine[];
+  total_quantity: number;
+  checkout_url?: string;
+};
+
+export type AddToCartRequest = {
+  variant_id: number | string;
+  quantity?: number;
+  cart_id?: string;
+  /** Display hints, used by the fake cart which has no product catalog. */
+  title?: string;
+  price?: string;
+};
+
+export const ADD_TO_CART_ENDPOINT = "/api/shopify-add-to-cart";
+
+export const MAX_LINE_QUANTITY = 20;
+
+const THEME_CART_TIMEOUT_MS = 5000;
+
+type ThemeCartJson = {
+  token: string;
+  item_count: number;
+  currency?: string;
+  items: Array<{ variant_id: number; quantity: number; title?: string; final_price?: number; price?: number }>;
+};
+
+/** True on a Shopify storefront, where the theme's cart is the real one. */
+export function isShopifyStorefront(): boolean {
+  return typeof window !== "undefined" && !!(window as any).Shopify;
+}
+
+function fromThemeCart(json: ThemeCartJson): Cart {
+  return {
+    id: json.token,
+    lines: json.items.map((i) => {
+      const cents = i.final_price ?? i.price;
+      return {
+        variant_id: i.variant_id,
+        quantity: i.quantity,
+        title: i.title,
+        price: cents == null ? undefined : `${(cents / 100).toFixed(2)}${json.currency ? ` ${json.currency}` : ""}`,
+      };
+    }),
+    total_quantity: json.item_count,
+  };
+}
+
+/** The theme's cart from /cart.js, or null when it can't be read. */
+export async function fetchThemeCart(): Promise<Cart | null> {
+  try {
+    const res = await fetch("/cart.js", {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout?.(THEME_CART_TIMEOUT_MS),
+    });
+    return res.ok ? fromThemeCart(await res.json()) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Add a variant to the theme's cart and return the updated cart. */
+export async function addToThemeCart(variantId: number | string, quantity = 1): Promise<Cart> {
+  // /cart/add.js takes the numeric id, not a Storefront API gid
+  const id = Number(String(variantId).split("/").pop());
+  const res = await fetch("/cart/add.js", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({ items: [{ id, quantity }] }),
+    signal: AbortSignal.timeout?.(THEME_CART_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.description || body.message || `Add to cart failed (${res.status})`);
+  }
+  const cart = await fetchThemeCart();
+  if (!cart) throw new Error("Could not read the cart");
+  return cart;
+}
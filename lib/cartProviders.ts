@@ -0,0 +1,170 @@
+// lib/cartProviders.ts
+import { AddToCartRequest, Cart, CartLine } from "./cart";
+
+/**
+ * Server-side cart backends for /api/shopify-add-to-cart.
+ *
+ * CART_PROVIDER=shopify talks to the Shopify Storefront cart API
+ * (SHOPIFY_STORE_DOMAIN + SHOPIFY_STOREFRONT_TOKEN); CART_PROVIDER=fake keeps
+ * carts in memory for local development (at most MAX_FAKE_CARTS, each for
+ * FAKE_CART_TTL_MS after its last change). Without CART_PROVIDER the Shopify
+ * provider is used when its credentials are present, the fake one otherwise.
+ */
+
+export interface CartProvider {
+  name: string;
+  addLine(input: AddToCartRequest & { quantity: number }): Promise<Cart>;
+}
+
+export class CartError extends Error {
+  status: number;
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = "CartError";
+    this.status = status;
+  }
+}
+
+/* ---------- fake (in-memory) ---------- */
+
+const MAX_FAKE_CARTS = 1000;
+const FAKE_CART_TTL_MS = 24 * 60 * 60_000;
+
+// Map keeps insertion order and a cart is re-inserted on every change, so the
+// first entries are the least recently used
+const fakeCarts = new Map<string, { cart: Cart; updatedAt: number }>();
+
+function pruneFakeCarts() {
+  const now = Date.now();
+  for (const [id, entry] of Array.from(fakeCarts.entries())) {
+    if (fakeCarts.size < MAX_FAKE_CARTS && now - entry.updatedAt <= FAKE_CART_TTL_MS) break;
+    fakeCarts.delete(id);
+  }
+}
+
+export const fakeCartProvider: CartProvider = {
+  name: "fake",
+  async addLine({ cart_id, variant_id, quantity, title, price }) {
+    const existing = cart_id ? fakeCarts.get(cart_id)?.cart : undefined;
+    const cart: Cart = existing ?? {
+      id: `fake-cart-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      lines: [],
+      total_quantity: 0,
+    };
+    const line = cart.lines.find((l) => String(l.variant_id) === String(variant_id));
+    if (line) line.quantity += quantity;
+    else cart.lines.push({ variant_id, quantity, title, price });
+    cart.total_quantity = cart.lines.reduce((n, l) => n + l.quantity, 0);
+    fakeCarts.delete(cart.id);
+    pruneFakeCarts();
+    fakeCarts.set(cart.id, { cart, updatedAt: Date.now() });
+    return { ...cart, lines: cart.lines.map((l) => ({ ...l })) };
+  },
+};
+
+/* ---------- Shopify Storefront API ---------- */
+
+const STOREFRONT_API_VERSION = "2024-01";
+const SHOPIFY_TIMEOUT_MS = 8000;
+
+const CART_FIELDS = `
+  id
+  checkoutUrl
+  totalQuantity
+  lines(first: 50) {
+    edges {
+      node {
+        quantity
+        merchandise {
+          ... on ProductVariant {
+            id
+            title
+            product { title }
+            price { amount currencyCode }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const CART_CREATE = `mutation cartCreate($lines: [CartLineInput!]) {
+  cartCreate(input: { lines: $lines }) { cart { ${CART_FIELDS} } userErrors { message } }
+}`;
+
+const CART_LINES_ADD = `mutation cartLinesAdd($cartId: ID!, $lines: [CartLineInput!]!) {
+  cartLinesAdd(cartId: $cartId, lines: $lines) { cart { ${CART_FIELDS} } userErrors { message } }
+}`;
+
+function variantGid(id: number | string): string {
+  const s = String(id);
+  return s.startsWith("gid://") ? s : `gid://shopify/ProductVariant/${s}`;
+}
+
+function toCart(raw: any): Cart {
+  const lines: CartLine[] = (raw?.lines?.edges ?? []).map((e: any) => {
+    const m = e.node.merchandise ?? {};
+    const productTitle = m.product?.title;
+    return {
+      variant_id: m.id,
+      quantity: e.node.quantity,
+      title:
+        productTitle && m.title && m.title !== "Default Title"
+          ? `${productTitle} — ${m.title}`
+          : productTitle ?? m.title,
+      price: m.price ? `${m.price.amount} ${m.price.currencyCode}` : undefined,
+    };
+  });
+  return {
+    id: raw.id,
+    lines,
+    total_quantity: raw.totalQuantity ?? lines.reduce((n, l) => n + l.quantity, 0),
+    checkout_url: raw.checkoutUrl,
+  };
+}
+
+export const shopifyCartProvider: CartProvider = {
+  name: "shopify",
+  async addLine({ cart_id, variant_id, quantity }) {
+    const domain = process.env.SHOPIFY_STORE_DOMAIN;
+    const token = process.env.SHOPIFY_STOREFRONT_TOKEN;
+    if (!domain || !token) throw new CartError("Shopify cart is not configured", 503);
+
+    const lines = [{ merchandiseId: variantGid(variant_id), quantity }];
+    const query = cart_id ? CART_LINES_ADD : CART_CREATE;
+    const variables = cart_id ? { cartId: cart_id, lines } : { lines };
+
+    let res: Response;
+    let json: any;
+    try {
+      res = await fetch(`https://${domain}/api/${STOREFRONT_API_VERSION}/graphql.json`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Shopify-Storefront-Access-Token": token,
+        },
+        body: JSON.stringify({ query, variables }),
+        signal: AbortSignal.timeout(SHOPIFY_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new CartError(`Shopify cart API error ${res.status}`);
+      json = await res.json();
+    } catch (err) {
+      if ((err as Error)?.name === "TimeoutError") throw new CartError("Shopify cart API timed out", 504);
+      throw err;
+    }
+    const payload = json?.data?.[cart_id ? "cartLinesAdd" : "cartCreate"];
+    const userError = payload?.userErrors?.[0]?.message ?? json?.errors?.[0]?.message;
+    if (userError) throw new CartError(userError, 422);
+    if (!payload?.cart) throw new CartError("Shopify cart API returned no cart");
+    return toCart(payload.cart);
+  },
+};
+
+export function getCartProvider(): CartProvider {
+  const selected = process.env.CART_PROVIDER;
+  if (selected === "fake") return fakeCartProvider;
+  if (selected === "shopify") return shopifyCartProvider;
+  return process.env.SHOPIFY_STORE_DOMAIN && process.env.SHOPIFY_STOREFRONT_TOKEN
+    ? shopifyCartProvider
+    : fakeCartProvider;
+}
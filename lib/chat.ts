@@ -0,0 +1,270 @@
+// lib/chat.ts
+import type { ChatAttachment, TranscriptImage } from "./attachments";
+import type { Cart } from "./cart";
+import type { ChatErrorKind } from "./chatClient";
+import { ChatAction, parseChatAction } from "./chatActions";
+import type { PageContext } from "./pageContext";
+
+/**
+ * Shared chat types used by the widget and the /api/chat proxy route.
+ *
+ * The backend contract is POST /v1/chat returning
+ * { text, speech_url?, avatar_video_url?, recommended_products?, expression?,
+ *   suggestions?, actions?, handoff? }.
+ */
+
+export type RecommendedProduct = {
+  id: number | string;
+  title: string;
+  /** Display price; a plain amount ("89.00") is formatted with `currency`. */
+  price?: string;
+  /** ISO 4217 code, e.g. "USD". */
+  currency?: string;
+  handle?: string;
+  image?: string;
+  variant_id?: number;
+};
+
+export type ChatResponse = {
+  text: string;
+  speech_url?: string;
+  avatar_video_url?: string;
+  recommended_products?: RecommendedProduct[];
+  expression?: string;
+  /** Quick replies shown as chips under the reply; tapping one sends it. */
+  suggestions?: string[];
+  /** Things to do on the page (see lib/chatActions.ts). */
+  actions?: ChatAction[];
+  /** The assistant can't help; hand the conversation to a person (lib/handoff.ts). */
+  handoff?: boolean;
+};
+
+/** A history entry as sent to the backend. */
+export type ChatMessage = { role: string; content: string };
+
+export type MessageStatus = "sending" | "streaming" | "sent" | "failed";
+
+export type ActionStatus = "pending" | "done" | "dismissed";
+
+export type MessageAttachment =
+  | { type: "products"; products: RecommendedProduct[] }
+  | { type: "suggestions"; suggestions: string[] }
+  | { type: "images"; images: TranscriptImage[] }
+  | { type: "action"; action: ChatAction; status: ActionStatus };
+
+/** A message in the widget transcript (and the persisted session). */
+export type TranscriptMessage = {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  /** Epoch ms. */
+  createdAt: number;
+  status: MessageStatus;
+  attachments?: MessageAttachment[];
+  /** Why a failed user message failed. */
+  error?: Exclude<ChatErrorKind, "aborted">;
+  /** Set on messages from a person who took over the conversation (lib/handoff.ts). */
+  agentName?: string;
+};
+
+export type ChatRequest = {
+  shop?: string;
+  message: string;
+  /** Images the shopper sent with the message (lib/attachments.ts). */
+  attachments?: ChatAttachment[];
+  history?: ChatMessage[];
+  mascotId?: string;
+  /** Stable per-conversation id, persisted across page loads. */
+  sessionId?: string;
+  /** Widget locale (e.g. "fr"); the assistant should answer in it. */
+  locale?: string;
+  /** Current cart, so the assistant knows what the shopper has added. */
+  cart?: Cart;
+  /** What the shopper is looking at (lib/pageContext.ts). */
+  context?: PageContext;
+  /** Ask /api/chat for a server-sent event stream instead of one JSON reply. */
+  stream?: boolean;
+};
+
+/** Same-origin route the widget talks to; never the backend directly. */
+export const CHAT_ENDPOINT = "/api/chat";
+
+export function createMessage(
+  role: TranscriptMessage["role"],
+  content: string,
+  extra: Partial<TranscriptMessage> = {}
+): TranscriptMessage {
+  return {
+    id: `m-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    role,
+    content,
+    createdAt: Date.now(),
+    status: "sent",
+    ...extra,
+  };
+}
+
+/** Products attached to a transcript message, if any. */
+export function messageProducts(message: TranscriptMessage): RecommendedProduct[] {
+  return (message.attachments ?? []).flatMap((a) => (a.type === "products" ? a.products : []));
+}
+
+export function messageSuggestions(message: TranscriptMessage): string[] {
+  return (message.attachments ?? []).flatMap((a) => (a.type === "suggestions" ? a.suggestions : []));
+}
+
+export function messageImages(message: TranscriptMessage): TranscriptImage[] {
+  return (message.attachments ?? []).flatMap((a) => (a.type === "images" ? a.images : []));
+}
+
+/** The transcript as backend history: failed and empty messages are left out. */
+export function toChatHistory(messages: TranscriptMessage[]): ChatMessage[] {
+  return messages
+    .filter((m) => m.status !== "failed" && m.content !== "")
+    .map((m) => ({ role: m.role, content: m.content }));
+}
+
+const MAX_SUGGESTIONS = 6;
+const MAX_SUGGESTION_LENGTH = 80;
+
+function optionalString(v: unknown): string | undefined {
+  return typeof v === "string" && v !== "" ? v : undefined;
+}
+
+export type ValidationResult = {
+  /** null when the payload can't be used as a reply at all. */
+  value: ChatResponse | null;
+  /** What was wrong and repaired (or why the payload was rejected). */
+  issues: string[];
+};
+
+function validateProduct(p: any, i: number, issues: string[]): RecommendedProduct | null {
+  const where = `recommended_products[${i}]`;
+  if (!p || typeof p !== "object") {
+    issues.push(`${where} is not an object; dropped`);
+    return null;
+  }
+  if (!(typeof p.id === "string" || typeof p.id === "number")) {
+    issues.push(`${where} has no id; dropped`);
+    return null;
+  }
+  if (typeof p.title !== "string" || p.title.trim() === "") {
+    issues.push(`${where} has no title; dropped`);
+    return null;
+  }
+
+  let variantId: number | undefined;
+  if (typeof p.variant_id === "number") {
+    variantId = p.variant_id;
+  } else if (typeof p.variant_id === "string" && /^\d+$/.test(p.variant_id)) {
+    variantId = Number(p.variant_id);
+  } else if (p.variant_id != null) {
+    issues.push(`${where}.variant_id is not numeric; removed`);
+  }
+
+  let price: string | undefined;
+  if (typeof p.price === "string") price = p.price;
+  else if (typeof p.price === "number") price = p.price.toFixed(2);
+  else if (p.price != null) issues.push(`${where}.price has an unexpected type; removed`);
+
+  let image = optionalString(p.image) ?? optionalString(p.image_url);
+  if (image && !/^(https?:)?\/\//.test(image)) {
+    issues.push(`${where}.image is not an http(s) URL; removed`);
+    image = undefined;
+  }
+
+  return {
+    id: p.id,
+    title: p.title,
+    price,
+    currency: optionalString(p.currency),
+    handle: optionalString(p.handle),
+    image,
+    variant_id: variantId,
+  };
+}
+
+/**
+ * Check a backend payload against the ChatResponse schema.
+ *
+ * The payload must be an object with a string `text` (an empty text is
+ * accepted when products are present). Bad `recommended_products` entries
+ * are repaired or dropped and reported in `issues`; unknown fields are
+ * dropped.
+ */
+export function validateChatResponse(raw: unknown): ValidationResult {
+  const issues: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { value: null, issues: ["response is not a JSON object"] };
+  }
+  const obj = raw as Record<string, any>;
+
+  let products: RecommendedProduct[] | undefined;
+  if (obj.recommended_products != null) {
+    if (Array.isArray(obj.recommended_products)) {
+      products = obj.recommended_products
+        .map((p: unknown, i: number) => validateProduct(p, i, issues))
+        .filter((p: RecommendedProduct | null): p is RecommendedProduct => p !== null);
+    } else {
+      issues.push("recommended_products is not an array; dropped");
+    }
+  }
+
+  let suggestions: string[] | undefined;
+  if (obj.suggestions != null) {
+    if (Array.isArray(obj.suggestions)) {
+      suggestions = obj.suggestions
+        .filter((s: unknown) => typeof s === "string" && s.trim() !== "")
+        .map((s: string) => s.trim().slice(0, MAX_SUGGESTION_LENGTH))
+        .slice(0, MAX_SUGGESTIONS);
+      if (suggestions!.length !== obj.suggestions.length) {
+        issues.push("suggestions had empty, non-string or too many entries; trimmed");
+      }
+    } else {
+      issues.push("suggestions is not an array; dropped");
+    }
+  }
+
+  let actions: ChatAction[] | undefined;
+  if (obj.actions != null) {
+    if (Array.isArray(obj.actions)) {
+      actions = [];
+      obj.actions.forEach((a: unknown, i: number) => {
+        const action = parseChatAction(a);
+        if (action) actions!.push(action);
+        else issues.push(`actions[${i}] is unknown or invalid; ignored`);
+      });
+    } else {
+      issues.push("actions is not an array; dropped");
+    }
+  }
+
+  if (typeof obj.text !== "string") {
+    if (!products?.length) {
+      return { value: null, issues: [...issues, "response has no text"] };
+    }
+    issues.push("text is missing; using an empty reply");
+  }
+
+  return {
+    value: {
+      text: typeof obj.text === "string" ? obj.text : "",
+      speech_url: optionalString(obj.speech_url),
+      avatar_video_url: optionalString(obj.avatar_video_url),
+      recommended_products: products && products.length ? products : undefined,
+      expression: optionalString(obj.expression),
+      suggestions: suggestions && suggestions.length ? suggestions : undefined,
+      actions: actions && actions.length ? actions : undefined,
+      handoff: obj.handoff === true || undefined,
+    },
+    issues,
+  };
+}
+
+/**
+ * Coerce whatever the backend returned into a ChatResponse, repairing what
+ * validateChatResponse can and falling back to an empty reply.
+ */
+export function normalizeChatResponse(raw: unknown): ChatResponse {
+  return validateChatResponse(raw).value ?? { text: "" };
+}
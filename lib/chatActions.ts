@@ -0,0 +1,130 @@
+// lib/chatActions.ts
+import type { Cart } from "./cart";
+import type { Translate } from "./i18n";
+import { storefrontUrl } from "./products";
+
+/**
+ * Structured actions the assistant can ask the widget to perform on the
+ * storefront (the `actions` field of a chat reply).
+ *
+ * Every action type has a handler that says whether the shopper must confirm
+ * it first (anything that leaves the page or changes the checkout does), how
+ * to label it and how to run it. Unknown or malformed actions are dropped by
+ * parseChatAction and never reach a handler.
+ */
+
+export type ChatAction =
+  | { type: "open_product"; handle: string; label?: string }
+  | { type: "open_collection"; handle: string; label?: string }
+  | { type: "apply_discount"; code: string; label?: string }
+  | { type: "open_cart"; label?: string }
+  | { type: "scroll_to"; selector: string; label?: string };
+
+export type ActionType = ChatAction["type"];
+
+export type ActionContext = {
+  shop?: string;
+  cart: Cart | null;
+  navigate: (url: string) => void;
+};
+
+type ActionHandler<A extends ChatAction> = {
+  confirm: boolean;
+  describe: (action: A, t: Translate) => string;
+  run: (action: A, ctx: ActionContext) => void;
+};
+
+type HandlerMap = { [T in ActionType]: ActionHandler<Extract<ChatAction, { type: T }>> };
+
+const HANDLE = /^[a-z0-9][a-z0-9-]{0,254}$/i;
+const DISCOUNT_CODE = /^[\w-]{1,64}$/;
+const MAX_SELECTOR_LENGTH = 200;
+
+function humanize(handle: string) {
+  return handle.replace(/-/g, " ");
+}
+
+const HANDLERS: HandlerMap = {
+  open_product: {
+    confirm: true,
+    describe: (a, t) => t("actionOpenProduct", { name: a.label ?? humanize(a.handle) }),
+    run: (a, ctx) => ctx.navigate(storefrontUrl(`/products/${a.handle}`, ctx.shop)),
+  },
+  open_collection: {
+    confirm: true,
+    describe: (a, t) => t("actionOpenCollection", { name: a.label ?? humanize(a.handle) }),
+    run: (a, ctx) => ctx.navigate(storefrontUrl(`/collections/${a.handle}`, ctx.shop)),
+  },
+  apply_discount: {
+    confirm: true,
+    describe: (a, t) => t("actionApplyDiscount", { code: a.code }),
+    // Shopify's /discount/<code> route stores the code for checkout, then redirects back
+    run: (a, ctx) => {
+      const back = typeof window !== "undefined" ? window.location.pathname : "/";
+      ctx.navigate(
+        storefrontUrl(`/discount/${encodeURIComponent(a.code)}?redirect=${encodeURIComponent(back)}`, ctx.shop)
+      );
+    },
+  },
+  open_cart: {
+    confirm: true,
+    describe: (a, t) => a.label ?? t("actionOpenCart"),
+    run: (_a, ctx) => ctx.navigate(ctx.cart?.checkout_url ?? storefrontUrl("/cart", ctx.shop)),
+  },
+  scroll_to: {
+    confirm: false,
+    describe: (a, t) => a.label ?? t("actionScrollTo"),
+    run: (a) => {
+      try {
+        document.querySelector(a.selector)?.scrollIntoView({ behavior: "smooth", block: "start" });
+      } catch {
+        // invalid selector
+      }
+    },
+  },
+};
+
+function handlerFor<A extends ChatAction>(action: A): ActionHandler<A> {
+  return HANDLERS[action.type] as unknown as ActionHandler<A>;
+}
+
+/** A validated action, or null for unknown types and bad fields. */
+export function parseChatAction(raw: any): ChatAction | null {
+  if (!raw || typeof raw !== "object" || typeof raw.type !== "string") return null;
+  const label = typeof raw.label === "string" && raw.label.trim() ? raw.label.trim().slice(0, 80) : undefined;
+  switch (raw.type) {
+    case "open_product":
+    case "open_collection":
+      return typeof raw.handle === "string" && HANDLE.test(raw.handle)
+        ? { type: raw.type, handle: raw.handle, label }
+        : null;
+    case "apply_discount":
+      return typeof raw.code === "string" && DISCOUNT_CODE.test(raw.code)
+        ? { type: "apply_discount", code: raw.code, label }
+        : null;
+    case "open_cart":
+      return { type: "open_cart", label };
+    case "scroll_to":
+      return typeof raw.selector === "string" && raw.selector.length <= MAX_SELECTOR_LENGTH
+        ? { type: "scroll_to", selector: raw.selector, label }
+        : null;
+    default:
+      return null;
+  }
+}
+
+export function needsConfirmation(action: ChatAction): boolean {
+  return handlerFor(action).confirm;
+}
+
+export function describeAction(action: ChatAction, t: Translate): string {
+  return handlerFor(action).describe(action, t);
+}
+
+export function runAction(action: ChatAction, ctx: ActionContext): void {
+  try {
+    handlerFor(action).run(action, ctx);
+  } catch (err) {
+    console.warn(`chat action ${action.type} failed`, err);
+  }
+}
@@ -0,0 +1,244 @@
+// lib/chatClient.ts
+import { ATTACHMENT_ERROR_CODES, AttachmentErrorCode } from "./attachments";
+import { CHAT_ENDPOINT, ChatRequest, ChatResponse, validateChatResponse } from "./chat";
+import { readChatStream } from "./chatStream";
+
+/**
+ * Typed client for the chat endpoint.
+ *
+ * Every failure is surfaced as a ChatClientError with a `kind` the UI can
+ * act on. Failures where the backend most likely never produced a reply
+ * (network errors, timeouts, 429 and 502/503/504) are retried with
+ * exponential backoff, but never once reply tokens have been shown.
+ * /api/chat refusing a request's photos is kind "attachment", with
+ * `attachmentCode` telling why. It is read from the `code` in the error
+ * body, or, for a body without one (e.g. Next's own 413), from a 400, 413
+ * or 415 status on a request with `attachments`.
+ */
+
+export type ChatErrorKind =
+  | "network"
+  | "timeout"
+  | "auth"
+  | "rate_limit"
+  | "server"
+  | "attachment"
+  | "invalid_response"
+  | "aborted";
+
+export class ChatClientError extends Error {
+  kind: ChatErrorKind;
+  status?: number;
+  /** From Retry-After on 429 responses. */
+  retryAfterMs?: number;
+  /** Why the photos were refused, for kind "attachment". */
+  attachmentCode?: AttachmentErrorCode;
+
+  constructor(
+    kind: ChatErrorKind,
+    message: string,
+    opts: { status?: number; retryAfterMs?: number; attachmentCode?: AttachmentErrorCode } = {}
+  ) {
+    super(message);
+    this.name = "ChatClientError";
+    this.kind = kind;
+    this.status = opts.status;
+    this.retryAfterMs = opts.retryAfterMs;
+    this.attachmentCode = opts.attachmentCode;
+  }
+
+  get retryable(): boolean {
+    if (this.kind === "network" || this.kind === "timeout" || this.kind === "rate_limit") return true;
+    return this.kind === "server" && [502, 503, 504].includes(this.status ?? 0);
+  }
+}
+
+export type ChatClientOptions = {
+  endpoint?: string;
+  /** Per attempt, until the first reply token (or the whole JSON reply) arrives. */
+  timeoutMs?: number;
+  maxRetries?: number;
+  /** First backoff delay; doubles on every retry, plus jitter. */
+  retryDelayMs?: number;
+  /** Longest Retry-After we wait out automatically before giving up. */
+  maxRetryAfterMs?: number;
+  fetchImpl?: typeof fetch;
+};
+
+export type SendOptions = {
+  signal?: AbortSignal;
+  onToken?: (text: string) => void;
+  /** Called before each retry, e.g. to show "retrying…". */
+  onRetry?: (attempt: number, error: ChatClientError) => void;
+};
+
+export type ChatClient = {
+  send(request: ChatRequest, opts?: SendOptions): Promise<ChatResponse>;
+};
+
+export const DEFAULT_CHAT_TIMEOUT_MS = 20000;
+
+function isAbortError(err: unknown) {
+  return err instanceof DOMException ? err.name === "AbortError" : (err as any)?.name === "AbortError";
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function attachmentCodeOf(body: any, status: number, request: ChatRequest): AttachmentErrorCode | undefined {
+  if (typeof body?.code === "string") {
+    const codes = Object.keys(ATTACHMENT_ERROR_CODES) as AttachmentErrorCode[];
+    return codes.find((code) => ATTACHMENT_ERROR_CODES[code] === body.code);
+  }
+  if (!request.attachments?.length || ![400, 413, 415].includes(status)) return undefined;
+  return status === 413 ? "size" : status === 415 ? "type" : "unreadable";
+}
+
+async function errorFromStatus(res: Response, request: ChatRequest): Promise<ChatClientError> {
+  const body = await res.json().catch(() => null);
+  const detail = typeof body?.error === "string" ? body.error : `Chat API error ${res.status}`;
+  const attachmentCode = attachmentCodeOf(body, res.status, request);
+  if (attachmentCode) {
+    return new ChatClientError("attachment", detail, { status: res.status, attachmentCode });
+  }
+  if (res.status === 401 || res.status === 403) {
+    return new ChatClientError("auth", detail, { status: res.status });
+  }
+  if (res.status === 429) {
+    return new ChatClientError("rate_limit", detail, {
+      status: res.status,
+      retryAfterMs: parseRetryAfter(res.headers.get("retry-after")),
+    });
+  }
+  return new ChatClientError("server", detail, { status: res.status });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function createChatClient({
+  endpoint = CHAT_ENDPOINT,
+  timeoutMs = DEFAULT_CHAT_TIMEOUT_MS,
+  maxRetries = 2,
+  retryDelayMs = 500,
+  maxRetryAfterMs = 10000,
+  fetchImpl,
+}: ChatClientOptions = {}): ChatClient {
+  async function attempt(
+    request: ChatRequest,
+    signal: AbortSignal | undefined,
+    onToken: (text: string) => void
+  ): Promise<{ reply?: ChatResponse; error?: ChatClientError; streamed: boolean }> {
+    // one controller per attempt: aborted by the caller or by our timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    let streamed = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener("abort", forwardAbort, { once: true });
+
+    const fail = (error: ChatClientError) => ({ error, streamed });
+    try {
+      let res: Response;
+      try {
+        res = await (fetchImpl ?? fetch)(endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+      } catch (err) {
+        if (!isAbortError(err)) return fail(new ChatClientError("network", String(err)));
+        throw err;
+      }
+
+      if (!res.ok) return fail(await errorFromStatus(res, request));
+
+      const contentType = res.headers.get("content-type") || "";
+      if (contentType.includes("application/json")) {
+        let raw: unknown;
+        try {
+          raw = await res.json();
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          return fail(new ChatClientError("invalid_response", "Reply is not valid JSON"));
+        }
+        const { value, issues } = validateChatResponse(raw);
+        if (issues.length) console.warn("chat reply issues:", issues);
+        if (!value) return fail(new ChatClientError("invalid_response", issues.join("; ")));
+        if (value.text) onToken(value.text);
+        return { reply: value, streamed };
+      }
+
+      try {
+        const reply = await readChatStream(res, {
+          onToken: (text) => {
+            if (!streamed) {
+              // tokens are on screen now: no more timeout, and no retries
+              streamed = true;
+              clearTimeout(timer);
+            }
+            onToken(text);
+          },
+        });
+        return { reply, streamed };
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        return fail(new ChatClientError("server", (err as Error).message));
+      }
+    } catch (err) {
+      if (timedOut && !signal?.aborted) {
+        return fail(new ChatClientError("timeout", `No reply within ${timeoutMs}ms`));
+      }
+      if (signal?.aborted) throw new ChatClientError("aborted", "Request was cancelled");
+      // the connection dropped while the body was being read
+      return fail(new ChatClientError("network", String(err)));
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", forwardAbort);
+    }
+  }
+
+  return {
+    async send(request, { signal, onToken = () => {}, onRetry } = {}) {
+      for (let tries = 0; ; tries++) {
+        if (signal?.aborted) throw new ChatClientError("aborted", "Request was cancelled");
+        const { reply, error, streamed } = await attempt(request, signal, onToken);
+        if (reply) return reply;
+
+        const err = error!;
+        const waitFor =
+          err.retryAfterMs ?? retryDelayMs * 2 ** tries + Math.random() * retryDelayMs;
+        if (streamed || !err.retryable || tries >= maxRetries || waitFor > maxRetryAfterMs) {
+          throw err;
+        }
+        onRetry?.(tries + 1, err);
+        try {
+          await sleep(waitFor, signal);
+        } catch {
+          throw new ChatClientError("aborted", "Request was cancelled");
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,104 @@
+// lib/chatStream.ts
+import { ChatResponse, normalizeChatResponse } from "./chat";
+
+/**
+ * Streaming chat protocol spoken between /api/chat and the widget.
+ *
+ * Server-sent events, one JSON payload per event:
+ *   event: token  data: { "text": "partial " }
+ *   event: done   data: { recommended_products?, expression?, speech_url?, ... }
+ *   event: error  data: { "error": "message" }
+ *
+ * The reader also accepts a plain chunked text body (each chunk is appended
+ * as-is) and a regular JSON ChatResponse, so a non-streaming backend still works.
+ */
+
+export type StreamEvent = { event: string; data: string };
+
+export type StreamHandlers = {
+  onToken: (text: string) => void;
+};
+
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/** Split an SSE buffer into complete events; returns the unconsumed remainder. */
+export function parseSSE(buffer: string): { events: StreamEvent[]; rest: string } {
+  const events: StreamEvent[] = [];
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  for (const block of blocks) {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (data.length) events.push({ event, data: data.join("\n") });
+  }
+  return { events, rest };
+}
+
+function safeJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Consume a streaming chat response, calling onToken for every text delta.
+ * Resolves with the full reply (accumulated text plus final metadata).
+ */
+export async function readChatStream(
+  res: Response,
+  { onToken }: StreamHandlers
+): Promise<ChatResponse> {
+  const contentType = res.headers.get("content-type") || "";
+
+  if (contentType.includes("application/json") || !res.body) {
+    const reply = normalizeChatResponse(await res.json());
+    if (reply.text) onToken(reply.text);
+    return reply;
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  const isSSE = contentType.includes("text/event-stream");
+  let text = "";
+  let meta: Record<string, unknown> = {};
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    const chunk = decoder.decode(value, { stream: true });
+
+    if (!isSSE) {
+      text += chunk;
+      onToken(chunk);
+      continue;
+    }
+
+    buffer += chunk;
+    const parsed = parseSSE(buffer);
+    buffer = parsed.rest;
+    for (const evt of parsed.events) {
+      const data = safeJson(evt.data);
+      if (evt.event === "token" || evt.event === "message") {
+        const delta = typeof data?.text === "string" ? data.text : "";
+        if (!delta) continue;
+        text += delta;
+        onToken(delta);
+      } else if (evt.event === "done") {
+        meta = data && typeof data === "object" ? data : {};
+      } else if (evt.event === "error") {
+        throw new Error(data?.error || "Chat stream error");
+      }
+    }
+  }
+
+  return normalizeChatResponse({ ...meta, text: text || meta.text });
+}
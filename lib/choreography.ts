@@ -0,0 +1,238 @@
+// lib/choreography.ts
+/**
+ * Mascot choreography: named movement paths and which one plays when.
+ *
+ * A path is a list of keyframes relative to the mascot's corner, measured
+ * inward: positive x moves towards the middle of the page, positive y moves
+ * up from a bottom corner (down from a top one), positive rotate leans
+ * inward. The same path therefore works in every corner.
+ *
+ *   "choreography": {
+ *     "paths": { "strut": { "duration": 2000, "walking": true,
+ *                "keyframes": [{ "x": 0 }, { "x": 260 }, { "x": 260, "at": 0.7 }, { "x": 0 }] } },
+ *     "contexts": { "reply": "hop", "recommendation": ["walk", "strut"], "idle": "none" },
+ *     "idleSeconds": 40
+ *   }
+ *
+ * Built-in paths: walk, hop, peek-in and wave; a mascot's own paths can add
+ * to or replace them. Contexts: greeting (an engagement rule reaches out),
+ * reply (a message was sent), recommendation (a reply recommends products)
+ * and idle (an occasional fidget). A context names one path, a list to pick
+ * from at random, or "none".
+ *
+ * Before playing, a path is fitted to the page: every keyframe is cut short
+ * where the widget would leave the viewport or run into an element matching
+ * the avoid selector.
+ */
+
+export type ChoreographyContext = "greeting" | "reply" | "recommendation" | "idle";
+
+export const CHOREOGRAPHY_CONTEXTS: ChoreographyContext[] = ["greeting", "reply", "recommendation", "idle"];
+
+export type PathKeyframe = {
+  x?: number;
+  y?: number;
+  rotate?: number;
+  scale?: number;
+  /** Point in time, 0..1; spread evenly when left out. */
+  at?: number;
+};
+
+export type ChoreographyPath = {
+  keyframes: PathKeyframe[];
+  /** Milliseconds. */
+  duration: number;
+  /** Play the walk clip while moving. */
+  walking?: boolean;
+};
+
+export type MascotChoreography = {
+  paths?: Record<string, ChoreographyPath>;
+  contexts?: Partial<Record<ChoreographyContext, string | string[]>>;
+  /** Seconds between idle fidgets while the widget is unused; 0 turns them off. */
+  idleSeconds?: number;
+};
+
+/** Elements merchants can mark to keep the mascot off them, besides their own selector. */
+export const DEFAULT_AVOID_SELECTOR = "[data-academic-avatar-avoid]";
+
+export const DEFAULT_IDLE_SECONDS = 45;
+
+const NO_PATH = "none";
+const VIEWPORT_MARGIN = 8;
+const MAX_KEYFRAMES = 12;
+const MAX_DURATION_MS = 10000;
+
+/** Built-in paths; `walk` covers the mascot's walkDistance. */
+export function builtInPaths(walkDistance: number): Record<string, ChoreographyPath> {
+  const d = walkDistance;
+  return {
+    walk: {
+      duration: 2400,
+      walking: true,
+      keyframes: [{ x: 0 }, { x: d, at: 0.4 }, { x: d, at: 0.6 }, { x: 0 }],
+    },
+    hop: {
+      duration: 900,
+      keyframes: [{ y: 0 }, { y: 36, at: 0.3 }, { y: 0, at: 0.55 }, { y: 16, at: 0.75 }, { y: 0 }],
+    },
+    "peek-in": {
+      duration: 1600,
+      keyframes: [{ x: 0 }, { x: 60, rotate: 12, at: 0.3 }, { x: 60, rotate: 12, at: 0.7 }, { x: 0, rotate: 0 }],
+    },
+    wave: {
+      duration: 1400,
+      keyframes: [{ rotate: 0 }, { rotate: 8 }, { rotate: -6 }, { rotate: 8 }, { rotate: -6 }, { rotate: 0 }],
+    },
+  };
+}
+
+const DEFAULT_CONTEXTS: Record<ChoreographyContext, string> = {
+  greeting: "peek-in",
+  reply: "hop",
+  recommendation: "walk",
+  idle: "wave",
+};
+
+/** The path a mascot plays in a context, or null for none. */
+export function pathForContext(
+  choreography: MascotChoreography | undefined,
+  walkDistance: number,
+  context: ChoreographyContext
+): ChoreographyPath | null {
+  const paths = { ...builtInPaths(walkDistance), ...choreography?.paths };
+  const choice = choreography?.contexts?.[context] ?? DEFAULT_CONTEXTS[context];
+  const names = Array.isArray(choice) ? choice : [choice];
+  const name = names[Math.floor(Math.random() * names.length)];
+  return name && name !== NO_PATH ? paths[name] ?? null : null;
+}
+
+/* Fitting a path to the page */
+
+export type Rect = { left: number; top: number; right: number; bottom: number };
+
+export type FitOptions = {
+  /** The widget at rest. */
+  home: Rect;
+  viewport: { width: number; height: number };
+  /** Page areas the widget must not cover. */
+  avoid: Rect[];
+  left: boolean;
+  top: boolean;
+};
+
+/** A keyframe as screen offsets from home. */
+export type FittedKeyframe = { x: number; y: number; rotate: number; scale: number };
+
+const overlaps = (a: Rect, b: Rect) => a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top;
+
+function offsetRect(r: Rect, x: number, y: number): Rect {
+  return { left: r.left + x, right: r.right + x, top: r.top + y, bottom: r.bottom + y };
+}
+
+/**
+ * Screen offsets for each keyframe, cut short (in tenths of the way out from
+ * home) where the widget would leave the viewport or cross an area in
+ * `avoid`, so it never passes over one on the way either. Areas the widget
+ * already overlaps at rest are ignored.
+ */
+export function fitPath(path: ChoreographyPath, { home, viewport, avoid, left, top }: FitOptions): FittedKeyframe[] {
+  const sx = left ? 1 : -1;
+  const sy = top ? 1 : -1;
+  const blockers = avoid.filter((r) => !overlaps(home, r));
+  const fits = (x: number, y: number) => {
+    const r = offsetRect(home, x, y);
+    return (
+      r.left >= VIEWPORT_MARGIN &&
+      r.top >= VIEWPORT_MARGIN &&
+      r.right <= viewport.width - VIEWPORT_MARGIN &&
+      r.bottom <= viewport.height - VIEWPORT_MARGIN &&
+      !blockers.some((b) => overlaps(r, b))
+    );
+  };
+  return path.keyframes.map((k) => {
+    const x = (k.x ?? 0) * sx;
+    const y = (k.y ?? 0) * sy;
+    let tenths = 0;
+    while (tenths < 10 && fits((x * (tenths + 1)) / 10, (y * (tenths + 1)) / 10)) tenths += 1;
+    const t = tenths / 10;
+    // `|| 0` turns -0 into 0
+    return { x: x * t || 0, y: y * t || 0, rotate: (k.rotate ?? 0) * sx || 0, scale: k.scale ?? 1 };
+  });
+}
+
+/** Keyframe times for framer-motion: `at` where given, evenly spread otherwise. */
+export function keyframeTimes(path: ChoreographyPath): number[] {
+  const last = path.keyframes.length - 1;
+  return path.keyframes.map((k, i) => (typeof k.at === "number" ? Math.min(1, Math.max(0, k.at)) : last ? i / last : 1));
+}
+
+/** Viewport rects of the visible host-page elements the mascot must avoid. */
+export function avoidRects(selector?: string): Rect[] {
+  if (typeof document === "undefined") return [];
+  let elements: Element[];
+  try {
+    elements = Array.from(document.querySelectorAll([DEFAULT_AVOID_SELECTOR, selector].filter(Boolean).join(", ")));
+  } catch {
+    console.warn(`[mascot] invalid avoid selector "${selector}"`);
+    elements = Array.from(document.querySelectorAll(DEFAULT_AVOID_SELECTOR));
+  }
+  return elements.map((el) => el.getBoundingClientRect()).filter((r) => r.width > 0 && r.height > 0);
+}
+
+/* Validation */
+
+function parsePath(raw: any, where: string, errors: string[]): ChoreographyPath | null {
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.keyframes) || raw.keyframes.length < 2) {
+    errors.push(`${where} needs at least two keyframes`);
+    return null;
+  }
+  if (typeof raw.duration !== "number" || raw.duration <= 0 || raw.duration > MAX_DURATION_MS) {
+    errors.push(`${where}.duration must be 1 to ${MAX_DURATION_MS} milliseconds`);
+    return null;
+  }
+  const keyframes: PathKeyframe[] = [];
+  for (const k of raw.keyframes.slice(0, MAX_KEYFRAMES)) {
+    const frame: PathKeyframe = {};
+    for (const key of ["x", "y", "rotate", "scale", "at"] as const) {
+      if (typeof k?.[key] === "number" && Number.isFinite(k[key])) frame[key] = k[key];
+    }
+    keyframes.push(frame);
+  }
+  return { keyframes, duration: raw.duration, walking: raw.walking === true || undefined };
+}
+
+/** Validate a mascot's `choreography`; bad paths and contexts are skipped and reported. */
+export function parseChoreography(raw: any, where: string, errors: string[]): MascotChoreography | undefined {
+  if (raw == null) return undefined;
+  if (typeof raw !== "object") {
+    errors.push(`${where} must be an object`);
+    return undefined;
+  }
+  const choreography: MascotChoreography = {};
+  if (raw.paths != null) {
+    choreography.paths = {};
+    for (const [name, value] of Object.entries(raw.paths)) {
+      const path = parsePath(value, `${where}.paths.${name}`, errors);
+      if (path) choreography.paths[name] = path;
+    }
+  }
+  if (raw.contexts != null) {
+    choreography.contexts = {};
+    for (const [context, value] of Object.entries<unknown>(raw.contexts)) {
+      const names = Array.isArray(value) ? value : [value];
+      if (!CHOREOGRAPHY_CONTEXTS.includes(context as ChoreographyContext)) {
+        errors.push(`${where}.contexts.${context} is not a context`);
+      } else if (!names.length || !names.every((n) => typeof n === "string" && n)) {
+        errors.push(`${where}.contexts.${context} must name a path`);
+      } else {
+        choreography.contexts[context as ChoreographyContext] = value as string | string[];
+      }
+    }
+  }
+  if (raw.idleSeconds != null) {
+    if (typeof raw.idleSeconds === "number" && raw.idleSeconds >= 0) choreography.idleSeconds = raw.idleSeconds;
+    else errors.push(`${where}.idleSeconds must be a non-negative number`);
+  }
+  return choreography;
+}
@@ -0,0 +1,35 @@
+// lib/cors.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+
+/**
+ * CORS for routes the embedded widget calls from a storefront origin.
+ *
+ * WIDGET_ALLOWED_ORIGINS is a comma-separated list of origins
+ * (e.g. https://demo-shop.myshopify.com) or "*". Same-origin calls from this
+ * app need no configuration.
+ *
+ * Returns true when the request was a preflight and has been answered.
+ */
+export function applyCors(req: NextApiRequest, res: NextApiResponse): boolean {
+  const origin = req.headers.origin;
+  const allowed = (process.env.WIDGET_ALLOWED_ORIGINS || "")
+    .split(",")
+    .map((o) => o.trim())
+    .filter(Boolean);
+
+  if (origin && (allowed.includes("*") || allowed.includes(origin))) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+    res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    // lets the chat client wait out a 429 from /api/chat
+    res.setHeader("Access-Control-Expose-Headers", "Retry-After");
+    res.setHeader("Access-Control-Max-Age", "600");
+  }
+
+  if (req.method === "OPTIONS") {
+    res.status(204).end();
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,300 @@
+// lib/engagement.ts
+import { PAGE_TYPES, PageType } from "./pageContext";
+
+/**
+ * Proactive engagement: rules that let the mascot reach out on its own.
+ *
+ * A rule pairs a trigger with an action:
+ *
+ *   { "id": "product-30s",
+ *     "trigger": { "type": "time_on_page", "seconds": 30 },
+ *     "pageTypes": ["product"],
+ *     "action": "greet",
+ *     "message": "Questions about sizing? Ask me!" }
+ *
+ * Triggers: time_on_page (seconds), scroll_depth (percent of the page),
+ * exit_intent (pointer leaves through the top of the window), idle_cart
+ * (items in the cart and no activity for `seconds`). `pageTypes` limits a
+ * rule to some page types (lib/pageContext.ts).
+ *
+ * Actions: walk_in (the mascot plays its greeting path, lib/choreography.ts),
+ * greet (the same, showing `message` in the speech bubble), open_chat (open the dialog with `message`
+ * and `suggestions` as quick prompts).
+ *
+ * Each rule fires at most maxPerSession times per conversation session and
+ * maxPerShopper times per browser, and never again once the shopper has
+ * dismissed it. That history is kept in localStorage per shop.
+ */
+
+export type EngagementTrigger =
+  | { type: "time_on_page"; seconds: number }
+  | { type: "scroll_depth"; percent: number }
+  | { type: "exit_intent" }
+  | { type: "idle_cart"; seconds: number };
+
+export type EngagementAction = "walk_in" | "greet" | "open_chat";
+
+export type EngagementRule = {
+  id: string;
+  trigger: EngagementTrigger;
+  pageTypes?: PageType[];
+  action: EngagementAction;
+  message?: string;
+  suggestions?: string[];
+  /** Default 1. */
+  maxPerSession?: number;
+  /** Default 3. */
+  maxPerShopper?: number;
+};
+
+export const MAX_ENGAGEMENT_RULES = 20;
+const MAX_MESSAGE_LENGTH = 300;
+const MAX_SUGGESTIONS = 4;
+const DEFAULT_MAX_PER_SESSION = 1;
+const DEFAULT_MAX_PER_SHOPPER = 3;
+
+const ACTIONS: EngagementAction[] = ["walk_in", "greet", "open_chat"];
+
+function validateTrigger(raw: unknown): EngagementTrigger | null {
+  const t = raw as Record<string, unknown>;
+  if (!t || typeof t !== "object") return null;
+  const positive = (v: unknown, max: number) => typeof v === "number" && v > 0 && v <= max;
+  switch (t.type) {
+    case "time_on_page":
+    case "idle_cart":
+      return positive(t.seconds, 3600) ? { type: t.type, seconds: t.seconds as number } : null;
+    case "scroll_depth":
+      return positive(t.percent, 100) ? { type: "scroll_depth", percent: t.percent as number } : null;
+    case "exit_intent":
+      return { type: "exit_intent" };
+    default:
+      return null;
+  }
+}
+
+/** Check rules from shop config; invalid rules are dropped and reported. */
+export function validateEngagementRules(raw: unknown): { rules: EngagementRule[]; issues: string[] } {
+  const issues: string[] = [];
+  if (!Array.isArray(raw)) return { rules: [], issues: ["engagement rules must be a list"] };
+  const rules: EngagementRule[] = [];
+  const seen = new Set<string>();
+  raw.slice(0, MAX_ENGAGEMENT_RULES).forEach((item, i) => {
+    const r = item as Record<string, unknown>;
+    const where = typeof r?.id === "string" ? `rule "${r.id}"` : `rule ${i + 1}`;
+    if (!r || typeof r !== "object" || typeof r.id !== "string" || !r.id || r.id.length > 50) {
+      issues.push(`${where} needs an id`);
+      return;
+    }
+    if (seen.has(r.id)) {
+      issues.push(`${where} is a duplicate id`);
+      return;
+    }
+    const trigger = validateTrigger(r.trigger);
+    if (!trigger) {
+      issues.push(`${where} has an invalid trigger`);
+      return;
+    }
+    if (!ACTIONS.includes(r.action as EngagementAction)) {
+      issues.push(`${where} has an unknown action`);
+      return;
+    }
+    if (r.action === "greet" && typeof r.message !== "string") {
+      issues.push(`${where} needs a message to greet with`);
+      return;
+    }
+    const rule: EngagementRule = { id: r.id, trigger, action: r.action as EngagementAction };
+    if (Array.isArray(r.pageTypes)) {
+      rule.pageTypes = r.pageTypes.filter((p): p is PageType => PAGE_TYPES.includes(p));
+    }
+    if (typeof r.message === "string") rule.message = r.message.trim().slice(0, MAX_MESSAGE_LENGTH);
+    if (Array.isArray(r.suggestions)) {
+      rule.suggestions = r.suggestions
+        .filter((s): s is string => typeof s === "string" && !!s.trim())
+        .slice(0, MAX_SUGGESTIONS)
+        .map((s) => s.trim().slice(0, 80));
+    }
+    for (const key of ["maxPerSession", "maxPerShopper"] as const) {
+      if (typeof r[key] === "number" && (r[key] as number) >= 0) rule[key] = Math.floor(r[key] as number);
+    }
+    seen.add(r.id);
+    rules.push(rule);
+  });
+  if (raw.length > MAX_ENGAGEMENT_RULES) issues.push(`only the first ${MAX_ENGAGEMENT_RULES} rules are kept`);
+  return { rules, issues };
+}
+
+/* Frequency caps */
+
+type RuleHistory = { count: number; lastAt: number; dismissed?: boolean };
+
+type EngagementHistory = {
+  sessionId?: string;
+  session: Record<string, number>;
+  shopper: Record<string, RuleHistory>;
+};
+
+const storageKey = (shop?: string) => `academic-avatar:engagement:${shop ?? "default"}`;
+
+function readHistory(shop?: string): EngagementHistory {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(storageKey(shop)) ?? "null");
+    if (parsed && typeof parsed === "object") return { session: {}, shopper: {}, ...parsed };
+  } catch {
+    // unreadable: start over
+  }
+  return { session: {}, shopper: {} };
+}
+
+function writeHistory(shop: string | undefined, history: EngagementHistory) {
+  try {
+    window.localStorage.setItem(storageKey(shop), JSON.stringify(history));
+  } catch {
+    // storage disabled: caps then only hold for this page view
+  }
+}
+
+/** Per-shop record of which rules fired, per session and per shopper. */
+export function createEngagementHistory(shop: string | undefined, sessionId: () => string) {
+  function current(): EngagementHistory {
+    const history = readHistory(shop);
+    // a new conversation session starts its counts over
+    if (history.sessionId !== sessionId()) return { ...history, sessionId: sessionId(), session: {} };
+    return history;
+  }
+  return {
+    canFire(rule: EngagementRule): boolean {
+      const history = current();
+      const shopper = history.shopper[rule.id];
+      if (shopper?.dismissed) return false;
+      if ((history.session[rule.id] ?? 0) >= (rule.maxPerSession ?? DEFAULT_MAX_PER_SESSION)) return false;
+      return (shopper?.count ?? 0) < (rule.maxPerShopper ?? DEFAULT_MAX_PER_SHOPPER);
+    },
+    recordFired(rule: EngagementRule) {
+      const history = current();
+      const shopper = history.shopper[rule.id] ?? { count: 0, lastAt: 0 };
+      history.session[rule.id] = (history.session[rule.id] ?? 0) + 1;
+      history.shopper[rule.id] = { ...shopper, count: shopper.count + 1, lastAt: Date.now() };
+      writeHistory(shop, history);
+    },
+    recordDismissed(ruleId: string) {
+      const history = current();
+      history.shopper[ruleId] = { count: 0, lastAt: Date.now(), ...history.shopper[ruleId], dismissed: true };
+      writeHistory(shop, history);
+    },
+  };
+}
+
+export type EngagementHistoryStore = ReturnType<typeof createEngagementHistory>;
+
+/* Trigger engine */
+
+export type EngagementEngineOptions = {
+  rules: EngagementRule[];
+  pageType: () => PageType | undefined;
+  /** Whether the cart has items; checked when an idle_cart rule is due. */
+  hasCartItems: () => Promise<boolean>;
+  /** false while the shopper is busy with the widget (dialog open, reply playing, ...). */
+  isIdle: () => boolean;
+  history: EngagementHistoryStore;
+  onFire: (rule: EngagementRule) => void;
+};
+
+const TICK_MS = 1000;
+const ACTIVITY_EVENTS = ["pointermove", "keydown", "scroll", "touchstart"] as const;
+
+function scrollPercent(): number {
+  const el = document.documentElement;
+  const scrollable = el.scrollHeight - window.innerHeight;
+  if (scrollable <= 0) return 100;
+  return Math.min(100, (window.scrollY / scrollable) * 100);
+}
+
+/**
+ * Watch the page and fire rules as their triggers are met, one at a time.
+ * Returns a function that stops watching.
+ */
+export function startEngagement({
+  rules,
+  pageType,
+  hasCartItems,
+  isIdle,
+  history,
+  onFire,
+}: EngagementEngineOptions): () => void {
+  const startedAt = Date.now();
+  let lastActivityAt = startedAt;
+  let maxScroll = scrollPercent();
+  let checkingCart = false;
+  // a rule fires at most once per page view, whatever its caps allow
+  const fired = new Set<string>();
+
+  const eligible = (rule: EngagementRule) =>
+    !fired.has(rule.id) &&
+    (!rule.pageTypes?.length || rule.pageTypes.includes(pageType() ?? "other")) &&
+    isIdle() &&
+    history.canFire(rule);
+
+  function fire(rule: EngagementRule) {
+    fired.add(rule.id);
+    history.recordFired(rule);
+    onFire(rule);
+  }
+
+  function check(kind: EngagementTrigger["type"]) {
+    const now = Date.now();
+    for (const rule of rules) {
+      const t = rule.trigger;
+      if (t.type !== kind) continue;
+      const due =
+        (t.type === "time_on_page" && now - startedAt >= t.seconds * 1000) ||
+        (t.type === "scroll_depth" && maxScroll >= t.percent) ||
+        t.type === "exit_intent" ||
+        (t.type === "idle_cart" && now - lastActivityAt >= t.seconds * 1000);
+      if (!due || !eligible(rule)) continue;
+      if (t.type === "idle_cart") {
+        if (checkingCart) return;
+        checkingCart = true;
+        hasCartItems()
+          .then((items) => {
+            if (items && eligible(rule)) fire(rule);
+          })
+          .catch(() => {})
+          .finally(() => {
+            checkingCart = false;
+            // don't ask for the cart again until the shopper goes idle again
+            lastActivityAt = Date.now();
+          });
+        return;
+      }
+      fire(rule);
+      return;
+    }
+  }
+
+  const timer = setInterval(() => {
+    check("time_on_page");
+    check("idle_cart");
+  }, TICK_MS);
+  const onActivity = () => {
+    lastActivityAt = Date.now();
+  };
+  const onScroll = () => {
+    maxScroll = Math.max(maxScroll, scrollPercent());
+    check("scroll_depth");
+  };
+  const onMouseOut = (e: MouseEvent) => {
+    // leaving through the top edge, towards the tabs or the address bar
+    if (!e.relatedTarget && e.clientY <= 0) check("exit_intent");
+  };
+
+  ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, onActivity, { passive: true }));
+  window.addEventListener("scroll", onScroll, { passive: true });
+  document.addEventListener("mouseout", onMouseOut);
+
+  return () => {
+    clearInterval(timer);
+    ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, onActivity));
+    window.removeEventListener("scroll", onScroll);
+    document.removeEventListener("mouseout", onMouseOut);
+  };
+}
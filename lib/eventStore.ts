@@ -0,0 +1,103 @@
+// lib/eventStore.ts
+import { appendFile, stat } from "fs/promises";
+import {
+  ANALYTICS_EVENT_NAMES,
+  ANALYTICS_SCHEMA_VERSION,
+  AnalyticsEvent,
+} from "./analytics";
+
+/**
+ * Local storage for widget analytics events received by /api/events.
+ *
+ * Events are kept in memory (the most recent MAX_STORED_EVENTS, lost on
+ * restart) and, when EVENTS_FILE is set, also appended to that file as one
+ * JSON object per line until it reaches EVENTS_FILE_MAX_MB (default 100).
+ *
+ * Props are checked here too, not only by the widget: they must be flat and
+ * small, and message text is dropped unless the shop opted in.
+ */
+
+export type StoredEvent = AnalyticsEvent & { receivedAt: number };
+
+const MAX_STORED_EVENTS = 5000;
+const MAX_EVENT_BYTES = 2048;
+const MAX_PROPS = 20;
+const MAX_PROP_STRING_LENGTH = 200;
+const DEFAULT_FILE_MAX_MB = 100;
+
+// props holding what the shopper or the assistant wrote
+const TEXT_PROPS = ["text"];
+
+const events: StoredEvent[] = [];
+let fileFullWarned = false;
+
+/* Flat props with short values; null when they don't fit */
+function sanitizeProps(props: Record<string, unknown>, includeText: boolean): Record<string, unknown> | null {
+  const entries = Object.entries(props);
+  if (entries.length > MAX_PROPS) return null;
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of entries) {
+    if (TEXT_PROPS.includes(key) && !includeText) continue;
+    if (typeof value === "string") {
+      out[key] = TEXT_PROPS.includes(key) ? value : value.slice(0, MAX_PROP_STRING_LENGTH);
+    } else if (value === null || typeof value === "boolean" || (typeof value === "number" && Number.isFinite(value))) {
+      out[key] = value;
+    } else {
+      return null;
+    }
+  }
+  return out;
+}
+
+/**
+ * A well-formed event of the current schema, or null. Message text is only
+ * kept with `includeText` (the shop's analyticsIncludeText setting).
+ */
+export function validateEvent(raw: unknown, { includeText = false }: { includeText?: boolean } = {}): AnalyticsEvent | null {
+  const e = raw as AnalyticsEvent;
+  if (!e || typeof e !== "object") return null;
+  if (e.schema !== ANALYTICS_SCHEMA_VERSION) return null;
+  if (!ANALYTICS_EVENT_NAMES.includes(e.name)) return null;
+  if (typeof e.at !== "number" || !Number.isFinite(e.at)) return null;
+  if (!e.props || typeof e.props !== "object" || Array.isArray(e.props)) return null;
+  if (e.sessionId !== undefined && (typeof e.sessionId !== "string" || e.sessionId.length > 100)) return null;
+  if (e.shop !== undefined && (typeof e.shop !== "string" || e.shop.length > 255)) return null;
+  const props = sanitizeProps(e.props as Record<string, unknown>, includeText);
+  if (!props) return null;
+  const event = { schema: e.schema, name: e.name, at: e.at, sessionId: e.sessionId, shop: e.shop, props } as AnalyticsEvent;
+  if (JSON.stringify(event).length > MAX_EVENT_BYTES) return null;
+  return event;
+}
+
+async function fileHasRoom(file: string): Promise<boolean> {
+  const max = (Number(process.env.EVENTS_FILE_MAX_MB) || DEFAULT_FILE_MAX_MB) * 1024 * 1024;
+  const size = await stat(file).then(
+    (s) => s.size,
+    () => 0
+  );
+  if (size < max) return true;
+  if (!fileFullWarned) console.warn(`${file} reached EVENTS_FILE_MAX_MB; new events are kept in memory only`);
+  fileFullWarned = true;
+  return false;
+}
+
+export async function storeEvents(batch: AnalyticsEvent[]): Promise<void> {
+  const receivedAt = Date.now();
+  const stored = batch.map((e) => ({ ...e, receivedAt }));
+  events.push(...stored);
+  if (events.length > MAX_STORED_EVENTS) events.splice(0, events.length - MAX_STORED_EVENTS);
+
+  const file = process.env.EVENTS_FILE;
+  if (file && stored.length && (await fileHasRoom(file))) {
+    await appendFile(file, stored.map((e) => JSON.stringify(e)).join("\n") + "\n", "utf8");
+  }
+}
+
+export function listEvents(filter: { name?: string; since?: number; shop?: string } = {}): StoredEvent[] {
+  return events.filter(
+    (e) =>
+      (!filter.name || e.name === filter.name) &&
+      (!filter.since || e.at >= filter.since) &&
+      (!filter.shop || e.shop === filter.shop)
+  );
+}
@@ -0,0 +1,158 @@
+// lib/handoff.ts
+import type { ChatMessage } from "./chat";
+import { resolveApiUrl } from "./widgetConfig";
+
+/**
+ * Handing a conversation over to a person: shared types for /api/handoff
+ * and the widget's client for it.
+ *
+ * The widget opens a ticket (the shopper asked for a person, or a reply
+ * came back with `handoff: true`), then sends the shopper's messages to it
+ * and polls for the agent's. An agent answers from the console at /agent.
+ * Once the agent closes the ticket the mascot takes over again.
+ *
+ * Shopper side, identified by the ticket id:
+ *   POST { action: "start", shop?, sessionId?, locale?, trigger, transcript } → { ticket }
+ *   POST { action: "send" | "typing" | "leave", ticketId, text? }
+ *   GET ?ticket=<id>&after=<cursor> → HandoffUpdate
+ */
+
+export const HANDOFF_ENDPOINT = "/api/handoff";
+
+export const MAX_HANDOFF_MESSAGE_LENGTH = 2000;
+
+export type HandoffStatus = "waiting" | "active" | "closed";
+
+export type HandoffTrigger = "shopper" | "assistant";
+
+export type HandoffMessage = {
+  /** Position in the ticket, from 1; also the polling cursor. */
+  id: number;
+  from: "shopper" | "agent";
+  text: string;
+  /** Epoch ms. */
+  at: number;
+  /** Set on agent messages. */
+  agentName?: string;
+};
+
+/** What the widget gets back from a poll. */
+export type HandoffUpdate = {
+  status: HandoffStatus;
+  agentName?: string;
+  agentTyping: boolean;
+  /** Messages after the requested cursor. */
+  messages: HandoffMessage[];
+  /** Pass as `after` on the next poll. */
+  cursor: number;
+  /** Who ended the conversation, once closed. */
+  closedBy?: "agent" | "shopper";
+};
+
+export type HandoffTicketSummary = {
+  id: string;
+  shop?: string;
+  status: HandoffStatus;
+  trigger: HandoffTrigger;
+  agentName?: string;
+  createdAt: number;
+  updatedAt: number;
+  /** The last thing said, for the console's ticket list. */
+  preview?: string;
+  shopperTyping: boolean;
+};
+
+/** A ticket as the agent console sees it. */
+export type HandoffTicket = HandoffTicketSummary & {
+  sessionId?: string;
+  locale?: string;
+  /** The conversation with the assistant before the handoff. */
+  transcript: ChatMessage[];
+  messages: HandoffMessage[];
+  closedBy?: "agent" | "shopper";
+};
+
+/** The widget's side of an open handoff; persisted with the session. */
+export type HandoffState = {
+  ticketId: string;
+  status: HandoffStatus;
+  agentName?: string;
+  cursor: number;
+  /** Epoch ms the ticket was opened. */
+  startedAt: number;
+};
+
+export type StartHandoffRequest = {
+  shop?: string;
+  sessionId?: string;
+  locale?: string;
+  trigger: HandoffTrigger;
+  transcript: ChatMessage[];
+};
+
+/** Milliseconds between polls while a handoff is open. */
+export const HANDOFF_POLL_MS = 2000;
+
+const REQUEST_TIMEOUT_MS = 8000;
+
+export class HandoffRequestError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "HandoffRequestError";
+    this.status = status;
+  }
+}
+
+export type HandoffClient = {
+  start(request: StartHandoffRequest): Promise<HandoffState>;
+  send(ticketId: string, text: string): Promise<HandoffMessage>;
+  /** Tell the agent the shopper is typing; failures are ignored. */
+  typing(ticketId: string): void;
+  leave(ticketId: string): Promise<void>;
+  poll(ticketId: string, after: number, signal?: AbortSignal): Promise<HandoffUpdate>;
+};
+
+export function createHandoffClient(apiEndpoint?: string): HandoffClient {
+  const url = resolveApiUrl(HANDOFF_ENDPOINT, apiEndpoint);
+
+  async function request<T>(init: RequestInit & { query?: string }, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const abort = () => controller.abort();
+    signal?.addEventListener("abort", abort);
+    try {
+      const res = await fetch(init.query ? `${url}?${init.query}` : url, { ...init, signal: controller.signal });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new HandoffRequestError(body.error || `Handoff request failed (${res.status})`, res.status);
+      return body as T;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  const post = <T>(body: object) =>
+    request<T>({ method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+  return {
+    async start(req) {
+      const { ticket } = await post<{ ticket: HandoffTicketSummary }>({ action: "start", ...req });
+      return { ticketId: ticket.id, status: ticket.status, cursor: 0, startedAt: ticket.createdAt };
+    },
+    async send(ticketId, text) {
+      const { message } = await post<{ message: HandoffMessage }>({ action: "send", ticketId, text });
+      return message;
+    },
+    typing(ticketId) {
+      post({ action: "typing", ticketId }).catch(() => {});
+    },
+    async leave(ticketId) {
+      await post({ action: "leave", ticketId });
+    },
+    poll(ticketId, after, signal) {
+      const query = `ticket=${encodeURIComponent(ticketId)}&after=${after}`;
+      return request<HandoffUpdate>({ method: "GET", query }, signal);
+    },
+  };
+}
@@ -0,0 +1,179 @@
+// lib/handoffStore.ts
+import { randomUUID } from "crypto";
+import type { ChatMessage } from "./chat";
+import type {
+  HandoffMessage,
+  HandoffTicket,
+  HandoffTicketSummary,
+  HandoffTrigger,
+  HandoffUpdate,
+} from "./handoff";
+
+/**
+ * In-memory relay behind /api/handoff: tickets and the messages between a
+ * shopper and an agent.
+ *
+ * Everything lives in this process and is lost on restart, which is enough
+ * to try the flow locally or on a single server. Closed tickets are dropped
+ * after CLOSED_TTL_MS, and the oldest closed ones once there are MAX_TICKETS.
+ * Open conversations are never dropped: when MAX_TICKETS are open, new
+ * tickets are refused with a 503.
+ */
+
+export class HandoffError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "HandoffError";
+    this.status = status;
+  }
+}
+
+type StoredTicket = Omit<HandoffTicket, "shopperTyping" | "preview"> & {
+  agentTypingUntil: number;
+  shopperTypingUntil: number;
+};
+
+const MAX_TICKETS = 200;
+const MAX_TICKET_MESSAGES = 500;
+const CLOSED_TTL_MS = 60 * 60_000;
+// a typing ping shows the indicator for this long
+const TYPING_MS = 4000;
+
+const tickets = new Map<string, StoredTicket>();
+
+function prune() {
+  const now = Date.now();
+  tickets.forEach((t, id) => {
+    if (t.status === "closed" && now - t.updatedAt > CLOSED_TTL_MS) tickets.delete(id);
+  });
+}
+
+/* Room for one more ticket: drop the oldest closed ones, never open ones */
+function makeRoom() {
+  prune();
+  // Map keeps insertion order, so the first entries are the oldest
+  for (const [id, t] of Array.from(tickets.entries())) {
+    if (tickets.size < MAX_TICKETS) return;
+    if (t.status === "closed") tickets.delete(id);
+  }
+  if (tickets.size >= MAX_TICKETS) throw new HandoffError("Too many open tickets", 503);
+}
+
+function find(id: unknown): StoredTicket {
+  const ticket = typeof id === "string" ? tickets.get(id) : undefined;
+  if (!ticket) throw new HandoffError("Unknown ticket", 404);
+  return ticket;
+}
+
+function summarize(t: StoredTicket): HandoffTicketSummary {
+  const last = t.messages[t.messages.length - 1] ?? t.transcript[t.transcript.length - 1];
+  return {
+    id: t.id,
+    shop: t.shop,
+    status: t.status,
+    trigger: t.trigger,
+    agentName: t.agentName,
+    createdAt: t.createdAt,
+    updatedAt: t.updatedAt,
+    preview: last ? ("text" in last ? last.text : last.content).slice(0, 120) : undefined,
+    shopperTyping: t.shopperTypingUntil > Date.now(),
+  };
+}
+
+export function openTicket(input: {
+  shop?: string;
+  sessionId?: string;
+  locale?: string;
+  trigger: HandoffTrigger;
+  transcript: ChatMessage[];
+}): HandoffTicketSummary {
+  makeRoom();
+  const now = Date.now();
+  const ticket: StoredTicket = {
+    id: randomUUID(),
+    ...input,
+    status: "waiting",
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    agentTypingUntil: 0,
+    shopperTypingUntil: 0,
+  };
+  tickets.set(ticket.id, ticket);
+  return summarize(ticket);
+}
+
+export function postMessage(ticketId: unknown, from: HandoffMessage["from"], text: string): HandoffMessage {
+  const ticket = find(ticketId);
+  if (ticket.status === "closed") throw new HandoffError("The conversation has ended", 409);
+  if (ticket.messages.length >= MAX_TICKET_MESSAGES) throw new HandoffError("Too many messages", 429);
+  const message: HandoffMessage = {
+    id: ticket.messages.length + 1,
+    from,
+    text,
+    at: Date.now(),
+    agentName: from === "agent" ? ticket.agentName : undefined,
+  };
+  ticket.messages.push(message);
+  ticket.updatedAt = message.at;
+  if (from === "agent") ticket.agentTypingUntil = 0;
+  else ticket.shopperTypingUntil = 0;
+  return message;
+}
+
+export function setTyping(ticketId: unknown, who: HandoffMessage["from"]): void {
+  const ticket = find(ticketId);
+  if (ticket.status === "closed") return;
+  if (who === "agent") ticket.agentTypingUntil = Date.now() + TYPING_MS;
+  else ticket.shopperTypingUntil = Date.now() + TYPING_MS;
+}
+
+/** An agent takes the ticket; another agent can take it over. */
+export function claimTicket(ticketId: unknown, agentName: string): HandoffTicketSummary {
+  const ticket = find(ticketId);
+  if (ticket.status === "closed") throw new HandoffError("The conversation has ended", 409);
+  ticket.status = "active";
+  ticket.agentName = agentName;
+  ticket.updatedAt = Date.now();
+  return summarize(ticket);
+}
+
+export function closeTicket(ticketId: unknown, by: "agent" | "shopper"): HandoffTicketSummary {
+  const ticket = find(ticketId);
+  if (ticket.status !== "closed") {
+    ticket.status = "closed";
+    ticket.closedBy = by;
+    ticket.updatedAt = Date.now();
+  }
+  return summarize(ticket);
+}
+
+/** The shopper's view: status and the agent's messages after `after`. */
+export function ticketUpdate(ticketId: unknown, after: number): HandoffUpdate {
+  const ticket = find(ticketId);
+  const messages = ticket.messages.filter((m) => m.id > after);
+  return {
+    status: ticket.status,
+    agentName: ticket.agentName,
+    agentTyping: ticket.status === "active" && ticket.agentTypingUntil > Date.now(),
+    messages,
+    cursor: ticket.messages.length,
+    closedBy: ticket.closedBy,
+  };
+}
+
+/** Open tickets first, then the most recently updated. */
+export function listTickets(): HandoffTicketSummary[] {
+  prune();
+  const rank = { waiting: 0, active: 1, closed: 2 };
+  return Array.from(tickets.values())
+    .sort((a, b) => rank[a.status] - rank[b.status] || b.updatedAt - a.updatedAt)
+    .map(summarize);
+}
+
+export function getTicket(ticketId: unknown): HandoffTicket {
+  const ticket = find(ticketId);
+  const { agentTypingUntil: _agent, shopperTypingUntil: _shopper, ...rest } = ticket;
+  return { ...rest, ...summarize(ticket) };
+}
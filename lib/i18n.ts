@@ -0,0 +1,83 @@
+// lib/i18n.ts
+import en from "../data/locales/en.json";
+import es from "../data/locales/es.json";
+import fr from "../data/locales/fr.json";
+import de from "../data/locales/de.json";
+import ar from "../data/locales/ar.json";
+
+/**
+ * Widget locales and translation catalogs (data/locales/*.json).
+ *
+ * English is the reference catalog: every other catalog falls back to it key
+ * by key, so a missing translation shows English rather than a raw key.
+ */
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, string>;
+
+export type LocaleInfo = {
+  code: string;
+  /** Name of the language in that language, for the switcher. */
+  label: string;
+  /** BCP 47 tag for SpeechRecognition / SpeechSynthesis. */
+  speechLang: string;
+  dir: "ltr" | "rtl";
+};
+
+export const LOCALES: LocaleInfo[] = [
+  { code: "en", label: "English", speechLang: "en-US", dir: "ltr" },
+  { code: "es", label: "Español", speechLang: "es-ES", dir: "ltr" },
+  { code: "fr", label: "Français", speechLang: "fr-FR", dir: "ltr" },
+  { code: "de", label: "Deutsch", speechLang: "de-DE", dir: "ltr" },
+  { code: "ar", label: "العربية", speechLang: "ar-SA", dir: "rtl" },
+];
+
+export const DEFAULT_LOCALE = "en";
+
+const CATALOGS: Record<string, Partial<Catalog>> = { en, es, fr, de, ar };
+
+export function getLocaleInfo(code: string): LocaleInfo {
+  return LOCALES.find((l) => l.code === code) ?? LOCALES[0];
+}
+
+/**
+ * Pick the first supported locale from a preference list such as
+ * [shopLocale, ...navigator.languages]; "fr-CA" matches "fr".
+ */
+export function resolveLocale(preferred: Array<string | undefined | null>): string {
+  for (const tag of preferred) {
+    if (!tag) continue;
+    const lang = tag.toLowerCase().split(/[-_]/)[0];
+    if (LOCALES.some((l) => l.code === lang)) return lang;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function browserLanguages(): string[] {
+  if (typeof navigator === "undefined") return [];
+  return navigator.languages?.length ? [...navigator.languages] : [navigator.language];
+}
+
+export type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+export function createTranslator(code: string): Translate {
+  const catalog = CATALOGS[code] ?? {};
+  return (key, vars) => {
+    const template = catalog[key] ?? (en as Catalog)[key] ?? key;
+    if (!vars) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name) =>
+      name in vars ? String(vars[name]) : match
+    );
+  };
+}
+
+/** Best installed speech synthesis voice for a locale, if any. */
+export function pickVoiceForLocale(info: LocaleInfo): SpeechSynthesisVoice | undefined {
+  if (typeof window === "undefined" || !window.speechSynthesis) return undefined;
+  const voices = window.speechSynthesis.getVoices();
+  const exact = info.speechLang.toLowerCase();
+  return (
+    voices.find((v) => v.lang.toLowerCase() === exact) ??
+    voices.find((v) => v.lang.toLowerCase().startsWith(info.code))
+  );
+}
@@ -0,0 +1,138 @@
+// lib/lipSync.ts
+/**
+ * Mouth-level driver for the talking mascot.
+ *
+ * Produces a 0..1 "how open is the mouth" level at animation-frame rate from
+ * one of three sources:
+ * - media: a Web Audio analyser on the playing <audio> (speech_url replies)
+ * - words: SpeechSynthesisUtterance `onboundary` word events (browser TTS)
+ * - simulated: a plausible babble, for voices that never fire boundary
+ *   events or audio the analyser can't read
+ *
+ * stop() always settles the level back to 0.
+ */
+
+export type LipSync = {
+  /** Analyse a playing media element. Returns false if Web Audio is unavailable. */
+  trackMedia(el: HTMLMediaElement): boolean;
+  /** Follow word boundaries of an utterance that is about to be spoken. */
+  trackUtterance(utter: SpeechSynthesisUtterance): void;
+  simulate(): void;
+  stop(): void;
+  dispose(): void;
+};
+
+type Mode = "media" | "words" | "simulated" | null;
+
+// how long a word keeps the mouth open, and how long to wait for the first
+// boundary event before assuming the voice doesn't send them
+const WORD_DECAY_MS = 160;
+const BOUNDARY_GRACE_MS = 600;
+
+export function createLipSync(onLevel: (level: number) => void): LipSync {
+  let mode: Mode = null;
+  let frame = 0;
+  let level = 0;
+  let lastWordAt = 0;
+  let graceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  let ctx: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let samples = new Uint8Array(0);
+  // a media element can only ever be wired to one source node
+  const sources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+
+  function emit(next: number) {
+    // light smoothing so the mouth doesn't flicker
+    level = level * 0.45 + next * 0.55;
+    onLevel(level < 0.02 ? 0 : level);
+  }
+
+  function tick() {
+    const now = performance.now();
+    if (mode === "media" && analyser) {
+      analyser.getByteTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const v = (samples[i] - 128) / 128;
+        sum += v * v;
+      }
+      emit(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+    } else if (mode === "words") {
+      const since = now - lastWordAt;
+      emit(since < WORD_DECAY_MS ? 1 - since / WORD_DECAY_MS : 0);
+    } else if (mode === "simulated") {
+      const wobble = (Math.sin(now / 65) + Math.sin(now / 23)) / 4 + 0.5;
+      emit(Math.max(0, Math.min(1, wobble)));
+    }
+    frame = requestAnimationFrame(tick);
+  }
+
+  function start(next: Mode) {
+    mode = next;
+    if (!frame) frame = requestAnimationFrame(tick);
+  }
+
+  function stop() {
+    mode = null;
+    clearTimeout(graceTimer);
+    if (frame) cancelAnimationFrame(frame);
+    frame = 0;
+    level = 0;
+    onLevel(0);
+  }
+
+  return {
+    trackMedia(el) {
+      const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+      if (!AudioCtx) return false;
+      try {
+        if (!ctx) {
+          ctx = new AudioCtx();
+          analyser = ctx.createAnalyser();
+          analyser.fftSize = 512;
+          analyser.connect(ctx.destination);
+          samples = new Uint8Array(analyser.fftSize);
+        }
+        if (!sources.has(el)) {
+          const source = ctx.createMediaElementSource(el);
+          source.connect(analyser!);
+          sources.set(el, source);
+        }
+        if (ctx.state === "suspended") ctx.resume().catch(() => {});
+      } catch {
+        return false;
+      }
+      start("media");
+      return true;
+    },
+
+    trackUtterance(utter) {
+      utter.onstart = () => {
+        lastWordAt = 0;
+        start("words");
+        graceTimer = setTimeout(() => {
+          if (mode === "words" && lastWordAt === 0) mode = "simulated";
+        }, BOUNDARY_GRACE_MS);
+      };
+      utter.onboundary = (evt) => {
+        if (evt.name && evt.name !== "word") return;
+        lastWordAt = performance.now();
+        if (mode === "simulated") mode = "words";
+      };
+    },
+
+    simulate() {
+      start("simulated");
+    },
+
+    stop,
+
+    dispose() {
+      stop();
+      ctx?.close().catch(() => {});
+      ctx = null;
+      analyser = null;
+    },
+  };
+}
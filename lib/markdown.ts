@@ -0,0 +1,136 @@
+// lib/markdown.ts
+/**
+ * Small Markdown subset for assistant replies, parsed into a tree the widget
+ * renders as React elements (never as HTML, so replies can't inject markup).
+ *
+ * Blocks: paragraphs (single newlines become line breaks), "- " / "* "
+ * bullet lists, "1. " numbered lists and ``` fenced code.
+ * Inline: **bold**, *italic* / _italic_, `code` and [links](https://...).
+ * Links are kept only for http(s), mailto and site-relative URLs; anything
+ * else is rendered as its text.
+ */
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: Inline[] }
+  | { type: "em"; children: Inline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: Inline[] }
+  | { type: "br" };
+
+export type Block =
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "list"; ordered: boolean; items: Inline[][] }
+  | { type: "code"; text: string };
+
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)|\*([^*\s][^*]*?)\*|\b_([^_\s][^_]*?)_\b/;
+
+const BULLET = /^\s*[-*]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+export function safeHref(href: string): string | null {
+  const trimmed = href.trim();
+  if (/^(https?:|mailto:)/i.test(trimmed)) return trimmed;
+  if (trimmed.startsWith("/") && !trimmed.startsWith("//")) return trimmed;
+  return null;
+}
+
+export function parseInline(text: string): Inline[] {
+  const out: Inline[] = [];
+  let rest = text;
+  while (rest) {
+    const m = INLINE_PATTERN.exec(rest);
+    if (!m) {
+      out.push({ type: "text", text: rest });
+      break;
+    }
+    if (m.index > 0) out.push({ type: "text", text: rest.slice(0, m.index) });
+    const [whole, code, strong, linkText, href, em, em2] = m;
+    if (code !== undefined) {
+      out.push({ type: "code", text: code });
+    } else if (strong !== undefined) {
+      out.push({ type: "strong", children: parseInline(strong) });
+    } else if (linkText !== undefined) {
+      const safe = safeHref(href);
+      out.push(
+        safe
+          ? { type: "link", href: safe, children: parseInline(linkText) }
+          : { type: "text", text: linkText }
+      );
+    } else {
+      out.push({ type: "em", children: parseInline(em ?? em2) });
+    }
+    rest = rest.slice(m.index + whole.length);
+  }
+  return out;
+}
+
+function paragraph(lines: string[]): Block {
+  const children: Inline[] = [];
+  lines.forEach((line, i) => {
+    if (i > 0) children.push({ type: "br" });
+    children.push(...parseInline(line));
+  });
+  return { type: "paragraph", children };
+}
+
+export function parseMarkdown(source: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = source.replace(/\r\n/g, "\n").split("\n");
+  let para: string[] = [];
+  const flush = () => {
+    if (para.length) blocks.push(paragraph(para));
+    para = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim().startsWith("```")) {
+      flush();
+      const code: string[] = [];
+      // an unterminated fence (e.g. mid-stream) runs to the end
+      for (i++; i < lines.length && !lines[i].trim().startsWith("```"); i++) code.push(lines[i]);
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const bullet = BULLET.exec(line);
+    const numbered = bullet ? null : NUMBERED.exec(line);
+    if (bullet || numbered) {
+      flush();
+      const ordered = !!numbered;
+      const items: Inline[][] = [];
+      const itemPattern = ordered ? NUMBERED : BULLET;
+      for (; i < lines.length; i++) {
+        const item = itemPattern.exec(lines[i]);
+        if (!item) break;
+        items.push(parseInline(item[1]));
+      }
+      i--;
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    if (line.trim() === "") flush();
+    else para.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+function inlineText(nodes: Inline[]): string {
+  return nodes
+    .map((n) => ("children" in n ? inlineText(n.children) : n.type === "br" ? "\n" : n.text))
+    .join("");
+}
+
+/** The reply without Markdown syntax, for the speech bubble and TTS. */
+export function markdownToPlainText(source: string): string {
+  return parseMarkdown(source)
+    .map((b) =>
+      b.type === "code" ? b.text : b.type === "list" ? b.items.map(inlineText).join("\n") : inlineText(b.children)
+    )
+    .join("\n");
+}
@@ -0,0 +1,198 @@
+// lib/mascotAnimation.ts
+import { useCallback, useEffect, useReducer, useRef } from "react";
+import type { Variants } from "framer-motion";
+import type { Mascot, MascotSprite, SpriteAnimation } from "./mascots";
+
+/**
+ * Mascot animation state machine.
+ *
+ * Every visual state the mascot can be in, the events that move it between
+ * them, and what each state looks like (clip + framer-motion variant) are
+ * defined here so the widget only dispatches events.
+ *
+ *   idle ──LISTEN──▶ listening ──STOP_LISTENING──▶ idle
+ *   idle ──WALK──▶ walking ──REQUEST──▶ thinking ──SPEAK──▶ talking
+ *   walking ──WALK_END──▶ idle
+ *   talking ──SPEECH_END(expression)──▶ happy | confused | sad | surprised | idle
+ *   reaction ──REACTION_END──▶ idle          (any) ──RESET──▶ idle
+ */
+
+export const REACTION_STATES = ["happy", "confused", "sad", "surprised"] as const;
+
+export type ReactionState = typeof REACTION_STATES[number];
+
+export type MascotState = "idle" | "listening" | "walking" | "thinking" | "talking" | ReactionState;
+
+export type MascotEvent =
+  | { type: "LISTEN" }
+  | { type: "STOP_LISTENING" }
+  | { type: "WALK" }
+  | { type: "WALK_END" }
+  | { type: "REQUEST" }
+  | { type: "SPEAK" }
+  | { type: "SPEECH_END"; expression?: string }
+  | { type: "REACTION_END" }
+  | { type: "RESET" };
+
+type EventType = MascotEvent["type"];
+
+/** "reaction" resolves to the state matching the backend expression (or idle). */
+type Target = MascotState | "reaction";
+
+// what every state does with every event; unlisted events are ignored
+const INTERRUPTIBLE: Partial<Record<EventType, Target>> = {
+  LISTEN: "listening",
+  WALK: "walking",
+  REQUEST: "thinking",
+  SPEAK: "talking",
+};
+
+const REACTION_TRANSITIONS: Partial<Record<EventType, Target>> = {
+  ...INTERRUPTIBLE,
+  REACTION_END: "idle",
+};
+
+export const TRANSITIONS: Record<MascotState, Partial<Record<EventType, Target>>> = {
+  idle: { ...INTERRUPTIBLE },
+  listening: { STOP_LISTENING: "idle", WALK: "walking", REQUEST: "thinking", SPEAK: "talking" },
+  walking: { REQUEST: "thinking", SPEAK: "talking", SPEECH_END: "reaction", WALK_END: "idle" },
+  thinking: { LISTEN: "listening", SPEAK: "talking", WALK: "walking", SPEECH_END: "reaction" },
+  talking: { LISTEN: "listening", WALK: "walking", REQUEST: "thinking", SPEECH_END: "reaction" },
+  happy: REACTION_TRANSITIONS,
+  confused: REACTION_TRANSITIONS,
+  sad: REACTION_TRANSITIONS,
+  surprised: REACTION_TRANSITIONS,
+};
+
+/** How long a reaction is shown before the mascot settles back to idle. */
+export const REACTION_DURATION_MS = 2400;
+
+// backend expressions that map onto one of our reactions
+const EXPRESSION_ALIASES: Record<string, ReactionState> = {
+  joy: "happy",
+  excited: "happy",
+  smile: "happy",
+  thinking: "confused",
+  unsure: "confused",
+  sorry: "sad",
+  apologetic: "sad",
+  wow: "surprised",
+  shocked: "surprised",
+};
+
+export function reactionFor(expression?: string): ReactionState | null {
+  if (!expression) return null;
+  const key = expression.toLowerCase();
+  if ((REACTION_STATES as readonly string[]).includes(key)) return key as ReactionState;
+  return EXPRESSION_ALIASES[key] ?? null;
+}
+
+export function isReaction(state: MascotState): state is ReactionState {
+  return (REACTION_STATES as readonly string[]).includes(state);
+}
+
+/** Pure transition function: the next state, or the same one if the event is ignored. */
+export function transition(state: MascotState, event: MascotEvent): MascotState {
+  if (event.type === "RESET") return "idle";
+  const target = TRANSITIONS[state][event.type];
+  if (!target) return state;
+  if (target === "reaction") {
+    return reactionFor(event.type === "SPEECH_END" ? event.expression : undefined) ?? "idle";
+  }
+  return target;
+}
+
+/** Which mascot clip a state plays; falls back to the idle clip. */
+export function clipForState(mascot: Mascot, state: MascotState): string {
+  if (state === "walking") return mascot.clips.walk ?? mascot.clips.idle;
+  if (state === "talking") return mascot.clips.talk ?? mascot.clips.idle;
+  if (isReaction(state)) return mascot.expressions?.[state] ?? mascot.clips.idle;
+  return mascot.clips.idle;
+}
+
+/** Which sprite animation a state plays; falls back to the idle one. */
+export function spriteAnimationForState(sprite: MascotSprite, state: MascotState): SpriteAnimation {
+  const { animations } = sprite;
+  if (state === "walking") return animations.walk ?? animations.idle;
+  if (state === "talking") return animations.talk ?? animations.idle;
+  if (isReaction(state)) return animations[state] ?? animations.idle;
+  return animations.idle;
+}
+
+/** framer-motion variants for the mascot body, keyed by state. */
+export const MASCOT_VARIANTS: Variants = {
+  idle: { scale: 1, rotate: 0, y: 0, transition: { duration: 0.3 } },
+  listening: { scale: 1.04, rotate: 0, y: 0, transition: { duration: 0.3 } },
+  walking: {
+    y: [0, -6, 0],
+    rotate: [0, -2, 0, 2, 0],
+    transition: { repeat: Infinity, duration: 0.5 },
+  },
+  thinking: {
+    rotate: [0, -4, 0, 4, 0],
+    scale: 1,
+    transition: { repeat: Infinity, duration: 2 },
+  },
+  talking: {
+    scale: [1, 1.03, 1],
+    transition: { repeat: Infinity, duration: 0.4 },
+  },
+  happy: { y: [0, -14, 0, -8, 0], scale: 1, transition: { duration: 0.8 } },
+  confused: { rotate: [0, -10, -8, -10, 0], transition: { duration: 1.2 } },
+  sad: { y: 6, scale: 0.96, transition: { duration: 0.6 } },
+  surprised: { scale: [1, 1.12, 1.05], transition: { duration: 0.5 } },
+};
+
+/**
+ * Variants for shoppers who prefer reduced motion: no looping bob, sway or
+ * bounce; states only differ by a short, small scale or opacity change.
+ */
+export const REDUCED_MOTION_VARIANTS: Variants = {
+  idle: { scale: 1, rotate: 0, y: 0, opacity: 1, transition: { duration: 0.2 } },
+  listening: { scale: 1.02, rotate: 0, y: 0, opacity: 1, transition: { duration: 0.2 } },
+  walking: { scale: 1, rotate: 0, y: 0, opacity: 1 },
+  thinking: { scale: 1, rotate: 0, y: 0, opacity: 0.85, transition: { duration: 0.2 } },
+  talking: { scale: 1, rotate: 0, y: 0, opacity: 1 },
+  happy: { scale: 1.02, rotate: 0, y: 0, opacity: 1, transition: { duration: 0.2 } },
+  confused: { scale: 1, rotate: 0, y: 0, opacity: 0.9, transition: { duration: 0.2 } },
+  sad: { scale: 0.98, rotate: 0, y: 0, opacity: 0.9, transition: { duration: 0.2 } },
+  surprised: { scale: 1.02, rotate: 0, y: 0, opacity: 1, transition: { duration: 0.2 } },
+};
+
+export type MascotAnimation = {
+  state: MascotState;
+  dispatch: (event: MascotEvent) => void;
+};
+
+/**
+ * Run the state machine for one mascot. Reactions end by themselves after
+ * REACTION_DURATION_MS. With `debug` every transition is logged and the
+ * recent ones are kept on window.__avatarMascotTransitions.
+ */
+export function useMascotAnimation(debug = false): MascotAnimation {
+  const [state, rawDispatch] = useReducer(transition, "idle");
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const debugRef = useRef(debug);
+  debugRef.current = debug;
+
+  const dispatch = useCallback((event: MascotEvent) => {
+    if (debugRef.current && typeof window !== "undefined") {
+      const from = stateRef.current;
+      const to = transition(from, event);
+      const log = ((window as any).__avatarMascotTransitions ??= []) as unknown[];
+      log.push({ at: Date.now(), from, event: event.type, to });
+      if (log.length > 50) log.shift();
+      console.debug(`[mascot] ${from} --${event.type}--> ${to}`);
+    }
+    rawDispatch(event);
+  }, []);
+
+  useEffect(() => {
+    if (!isReaction(state)) return;
+    const timer = setTimeout(() => dispatch({ type: "REACTION_END" }), REACTION_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [state, dispatch]);
+
+  return { state, dispatch };
+}
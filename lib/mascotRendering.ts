@@ -0,0 +1,140 @@
+// lib/mascotRendering.ts
+import { RefObject, useEffect, useState } from "react";
+import type { Mascot, MascotSprite, SpriteAnimation } from "./mascots";
+
+/**
+ * Helpers for components/MascotRenderer.tsx: when to play, what to preload,
+ * how to draw a sprite frame, and the load / frame cost metrics.
+ *
+ * Metrics are written to the mascot element as data attributes
+ * (data-mascot-load-ms, data-mascot-frame-ms, data-mascot-dropped-frames),
+ * measured as `academic-avatar:mascot-load` in the Performance panel, and
+ * with debugging on kept on window.__avatarMascotMetrics.
+ */
+
+/**
+ * Whether the element is worth animating: the tab is visible and the element
+ * is at least partly on screen.
+ */
+export function usePlaybackVisible(ref: RefObject<Element>): boolean {
+  const [tabVisible, setTabVisible] = useState(true);
+  const [onScreen, setOnScreen] = useState(true);
+
+  useEffect(() => {
+    if (typeof document === "undefined") return;
+    const update = () => setTabVisible(document.visibilityState !== "hidden");
+    update();
+    document.addEventListener("visibilitychange", update);
+    return () => document.removeEventListener("visibilitychange", update);
+  }, []);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || typeof IntersectionObserver === "undefined") return;
+    const observer = new IntersectionObserver((entries) => {
+      const entry = entries[entries.length - 1];
+      if (entry) setOnScreen(entry.isIntersecting);
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return tabVisible && onScreen;
+}
+
+/** Every asset a mascot can show besides its poster. */
+export function mascotAssets(mascot: Mascot): string[] {
+  const urls = [
+    mascot.clips.idle,
+    mascot.clips.walk,
+    mascot.clips.talk,
+    ...Object.values(mascot.expressions ?? {}),
+    mascot.sprite?.sheet,
+  ];
+  return Array.from(new Set(urls.filter((u): u is string => !!u)));
+}
+
+const prefetched = new Set<string>();
+
+/**
+ * Hint the browser to fetch assets into its cache once it is idle, so
+ * switching clips later doesn't wait on the network. Each URL is hinted once.
+ */
+export function prefetchAssets(urls: string[]): void {
+  if (typeof document === "undefined") return;
+  const pending = urls.filter((url) => !prefetched.has(url));
+  if (!pending.length) return;
+  pending.forEach((url) => prefetched.add(url));
+  const run = () => {
+    for (const url of pending) {
+      const link = document.createElement("link");
+      link.rel = "prefetch";
+      link.href = url;
+      document.head.appendChild(link);
+    }
+  };
+  const idle = (window as any).requestIdleCallback as ((cb: () => void) => number) | undefined;
+  if (idle) idle(run);
+  else setTimeout(run, 1000);
+}
+
+/** Frame of an animation at `elapsedMs`, looping or holding the last frame. */
+export function spriteFrameAt(sprite: MascotSprite, animation: SpriteAnimation, elapsedMs: number): number {
+  const step = Math.floor((elapsedMs / 1000) * sprite.fps);
+  const offset = animation.loop === false ? Math.min(step, animation.frames - 1) : step % animation.frames;
+  return animation.from + offset;
+}
+
+/** Draw one sheet frame scaled to fill the canvas. */
+export function drawSpriteFrame(
+  ctx: CanvasRenderingContext2D,
+  sheet: CanvasImageSource,
+  sprite: MascotSprite,
+  frame: number
+): void {
+  const { frameWidth, frameHeight, columns } = sprite;
+  const sx = (frame % columns) * frameWidth;
+  const sy = Math.floor(frame / columns) * frameHeight;
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.drawImage(sheet, sx, sy, frameWidth, frameHeight, 0, 0, ctx.canvas.width, ctx.canvas.height);
+}
+
+/* Metrics */
+
+export type MascotMetrics = {
+  mascotId: string;
+  renderer: "video" | "sprite" | "poster";
+  /** Time from requesting the asset to its first frame being ready. */
+  loadMs?: number;
+  /** Average main-thread cost of drawing one sprite frame. */
+  frameMs?: number;
+  /** Frames the browser dropped while playing video. */
+  droppedFrames?: number;
+};
+
+const MAX_METRICS = 20;
+
+/** Publish metrics on the element (and, with `debug`, on window and the console). */
+export function reportMascotMetrics(el: HTMLElement | null, metrics: MascotMetrics, debug: boolean): void {
+  if (el) {
+    if (metrics.loadMs != null) el.dataset.mascotLoadMs = String(Math.round(metrics.loadMs));
+    if (metrics.frameMs != null) el.dataset.mascotFrameMs = metrics.frameMs.toFixed(2);
+    if (metrics.droppedFrames != null) el.dataset.mascotDroppedFrames = String(metrics.droppedFrames);
+  }
+  if (!debug || typeof window === "undefined") return;
+  const log = ((window as any).__avatarMascotMetrics ??= []) as MascotMetrics[];
+  log.push(metrics);
+  if (log.length > MAX_METRICS) log.shift();
+  console.debug("[mascot] metrics", metrics);
+}
+
+/** Record asset load time as a Performance entry; returns the duration. */
+export function measureMascotLoad(startedAt: number): number {
+  const duration = performance.now() - startedAt;
+  try {
+    performance.measure("academic-avatar:mascot-load", { start: startedAt, duration });
+  } catch {
+    // older browsers only take mark names
+  }
+  return duration;
+}
@@ -0,0 +1,362 @@
+// lib/mascots.ts
+import bundledManifest from "../data/mascot-manifest.json";
+import { MascotChoreography, parseChoreography } from "./choreography";
+
+/**
+ * Mascot manifest: a versioned JSON document describing the selectable
+ * mascots, so merchants can add or restyle them without a code change.
+ *
+ * {
+ *   "version": 1,
+ *   "defaultMascotId": "mascot-1",
+ *   "mascots": [{
+ *     "id": "mascot-1", "title": "Potato Pal", "poster": "https://...",
+ *     "posters": [{ "url": "https://...80.webp", "width": 80 }, ...],
+ *     "clips": { "idle": "https://...mp4", "walk": "...", "talk": "..." },
+ *     "expressions": { "happy": "https://...mp4" },
+ *     "walkDistance": 700,
+ *     "greeting": "Hi!",
+ *     "voice": { "lang": "en-US", "voices": ["Samantha", "Google US English"],
+ *                "pitch": 1, "rate": 1, "volume": 1, "serverVoice": "warm" }
+ *   }]
+ * }
+ *
+ * Instead of video clips a mascot can be a sprite sheet drawn on a canvas,
+ * with one frame range per clip:
+ *
+ *   "sprite": { "sheet": "https://...png", "frameWidth": 160, "frameHeight": 160,
+ *               "columns": 8, "fps": 12,
+ *               "animations": { "idle": { "from": 0, "frames": 8 },
+ *                               "happy": { "from": 16, "frames": 6, "loop": false } } }
+ *
+ * `animations` uses the clip names (idle, walk, talk) and expression names;
+ * `idle` is required. `posters` are the poster in several widths, so small
+ * previews don't download the full-size image. `choreography` sets how the
+ * mascot moves (lib/choreography.ts).
+ *
+ * data/mascot-manifest.json is bundled as the default; a manifest can also be
+ * loaded at runtime from a URL.
+ */
+
+export const MASCOT_MANIFEST_VERSION = 1;
+
+export type MascotClips = {
+  idle: string;
+  walk?: string;
+  talk?: string;
+};
+
+/**
+ * How a mascot sounds. `voices` are preferred browser voice names, best
+ * first, matched case-insensitively against the installed voices by substring
+ * ("Google UK English Male", "Daniel"); the locale's default voice is the
+ * fallback. `serverVoice` is the voice id passed to /api/tts.
+ */
+export type MascotVoice = {
+  lang?: string;
+  voices?: string[];
+  pitch?: number;
+  rate?: number;
+  volume?: number;
+  serverVoice?: string;
+};
+
+export type SpriteAnimation = {
+  /** Index of the first frame in the sheet, counting left to right, top to bottom. */
+  from: number;
+  frames: number;
+  /** Default true; false holds the last frame. */
+  loop?: boolean;
+};
+
+export type MascotSprite = {
+  sheet: string;
+  frameWidth: number;
+  frameHeight: number;
+  columns: number;
+  fps: number;
+  animations: { idle: SpriteAnimation } & Record<string, SpriteAnimation>;
+};
+
+export type PosterSource = {
+  url: string;
+  /** Intrinsic width in pixels. */
+  width: number;
+};
+
+export type Mascot = {
+  id: string;
+  title: string;
+  poster: string;
+  /** The poster in several widths, smallest first. */
+  posters?: PosterSource[];
+  /** Video clips; `idle` is empty for sprite mascots. */
+  clips: MascotClips;
+  sprite?: MascotSprite;
+  /** Clip per backend `expression` (happy, confused, ...). */
+  expressions?: Record<string, string>;
+  walkDistance: number;
+  choreography?: MascotChoreography;
+  greeting?: string;
+  voice?: MascotVoice;
+};
+
+export type MascotManifest = {
+  version: number;
+  defaultMascotId?: string;
+  mascots: Mascot[];
+};
+
+export type ManifestResult = {
+  manifest: MascotManifest;
+  /** Human-readable problems; invalid entries were skipped. */
+  errors: string[];
+};
+
+export const DEFAULT_WALK_DISTANCE = 700;
+
+export const DEFAULT_MASCOT: Mascot = {
+  id: "default",
+  title: "Shop Assistant",
+  poster: "https://picsum.photos/seed/assistant/400/400",
+  clips: { idle: "" },
+  walkDistance: DEFAULT_WALK_DISTANCE,
+};
+
+export class MascotManifestError extends Error {
+  errors: string[];
+  constructor(message: string, errors: string[] = []) {
+    super(message);
+    this.name = "MascotManifestError";
+    this.errors = errors;
+  }
+}
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim() !== "";
+}
+
+function parseVoice(raw: any, where: string, errors: string[]): MascotVoice | undefined {
+  if (raw == null) return undefined;
+  if (typeof raw !== "object") {
+    errors.push(`${where}.voice must be an object`);
+    return undefined;
+  }
+  const voice: MascotVoice = {};
+  if (raw.lang != null) {
+    if (isNonEmptyString(raw.lang)) voice.lang = raw.lang;
+    else errors.push(`${where}.voice.lang must be a string`);
+  }
+  for (const key of ["pitch", "rate", "volume"] as const) {
+    if (raw[key] == null) continue;
+    if (typeof raw[key] === "number" && Number.isFinite(raw[key])) voice[key] = raw[key];
+    else errors.push(`${where}.voice.${key} must be a number`);
+  }
+  if (raw.voices != null) {
+    if (Array.isArray(raw.voices) && raw.voices.every(isNonEmptyString)) voice.voices = raw.voices;
+    else errors.push(`${where}.voice.voices must be a list of voice names`);
+  }
+  if (raw.serverVoice != null) {
+    if (isNonEmptyString(raw.serverVoice)) voice.serverVoice = raw.serverVoice;
+    else errors.push(`${where}.voice.serverVoice must be a string`);
+  }
+  return voice;
+}
+
+function parsePosters(raw: any, where: string, errors: string[]): PosterSource[] | undefined {
+  if (raw == null) return undefined;
+  if (!Array.isArray(raw)) {
+    errors.push(`${where}.posters must be a list`);
+    return undefined;
+  }
+  const posters: PosterSource[] = [];
+  raw.forEach((p: any, i: number) => {
+    if (p && isNonEmptyString(p.url) && typeof p.width === "number" && p.width > 0) {
+      posters.push({ url: p.url, width: p.width });
+    } else {
+      errors.push(`${where}.posters[${i}] needs a url and a width`);
+    }
+  });
+  return posters.length ? posters.sort((a, b) => a.width - b.width) : undefined;
+}
+
+function parseSprite(raw: any, where: string, errors: string[]): MascotSprite | undefined {
+  if (raw == null) return undefined;
+  const positive = (v: unknown) => typeof v === "number" && Number.isFinite(v) && v > 0;
+  if (
+    typeof raw !== "object" ||
+    !isNonEmptyString(raw.sheet) ||
+    !["frameWidth", "frameHeight", "columns", "fps"].every((key) => positive(raw[key]))
+  ) {
+    errors.push(`${where}.sprite needs a sheet URL and positive frameWidth, frameHeight, columns and fps`);
+    return undefined;
+  }
+  const animations: Record<string, SpriteAnimation> = {};
+  for (const [name, a] of Object.entries<any>(raw.animations ?? {})) {
+    if (a && Number.isInteger(a.from) && a.from >= 0 && Number.isInteger(a.frames) && a.frames > 0) {
+      animations[name] = { from: a.from, frames: a.frames, loop: a.loop === false ? false : undefined };
+    } else {
+      errors.push(`${where}.sprite.animations.${name} needs a frame index "from" and a frame count`);
+    }
+  }
+  if (!animations.idle) {
+    errors.push(`${where}.sprite.animations.idle is required`);
+    return undefined;
+  }
+  return {
+    sheet: raw.sheet,
+    frameWidth: raw.frameWidth,
+    frameHeight: raw.frameHeight,
+    columns: Math.floor(raw.columns),
+    fps: raw.fps,
+    animations: animations as MascotSprite["animations"],
+  };
+}
+
+/** Validate one manifest entry; returns null (and records why) if unusable. */
+function parseMascot(raw: any, index: number, errors: string[]): Mascot | null {
+  const where = `mascots[${index}]${isNonEmptyString(raw?.id) ? ` (${raw.id})` : ""}`;
+  if (!raw || typeof raw !== "object") {
+    errors.push(`${where} must be an object`);
+    return null;
+  }
+
+  const problems: string[] = [];
+  if (!isNonEmptyString(raw.id)) problems.push(`${where}.id is required`);
+  if (!isNonEmptyString(raw.title)) problems.push(`${where}.title is required`);
+  if (!isNonEmptyString(raw.poster)) problems.push(`${where}.poster is required`);
+  const sprite = parseSprite(raw.sprite, where, errors);
+  if (!sprite && (!raw.clips || !isNonEmptyString(raw.clips.idle))) {
+    problems.push(`${where}.clips.idle is required`);
+  }
+  if (problems.length) {
+    errors.push(...problems);
+    return null;
+  }
+
+  const clips: MascotClips = { idle: isNonEmptyString(raw.clips?.idle) ? raw.clips.idle : "" };
+  for (const key of ["walk", "talk"] as const) {
+    if (raw.clips?.[key] == null) continue;
+    if (isNonEmptyString(raw.clips[key])) clips[key] = raw.clips[key];
+    else errors.push(`${where}.clips.${key} must be a URL string`);
+  }
+
+  let expressions: Record<string, string> | undefined;
+  if (raw.expressions != null) {
+    if (typeof raw.expressions === "object") {
+      expressions = {};
+      for (const [name, url] of Object.entries(raw.expressions)) {
+        if (isNonEmptyString(url)) expressions[name] = url;
+        else errors.push(`${where}.expressions.${name} must be a URL string`);
+      }
+    } else {
+      errors.push(`${where}.expressions must be an object`);
+    }
+  }
+
+  let walkDistance = DEFAULT_WALK_DISTANCE;
+  if (raw.walkDistance != null) {
+    if (typeof raw.walkDistance === "number" && raw.walkDistance >= 0) walkDistance = raw.walkDistance;
+    else errors.push(`${where}.walkDistance must be a non-negative number`);
+  }
+
+  return {
+    id: raw.id,
+    title: raw.title,
+    poster: raw.poster,
+    posters: parsePosters(raw.posters, where, errors),
+    clips,
+    sprite,
+    expressions,
+    walkDistance,
+    choreography: parseChoreography(raw.choreography, `${where}.choreography`, errors),
+    greeting: isNonEmptyString(raw.greeting) ? raw.greeting : undefined,
+    voice: parseVoice(raw.voice, where, errors),
+  };
+}
+
+/**
+ * Validate a manifest document. Invalid entries and duplicate ids are skipped
+ * and reported in `errors`; if nothing usable remains the default mascot is
+ * used. Throws MascotManifestError only for an unsupported document.
+ */
+export function parseMascotManifest(raw: unknown): ManifestResult {
+  const doc = raw as any;
+  if (!doc || typeof doc !== "object" || !Array.isArray(doc.mascots)) {
+    throw new MascotManifestError("Mascot manifest must be an object with a `mascots` array");
+  }
+  if (doc.version !== MASCOT_MANIFEST_VERSION) {
+    throw new MascotManifestError(
+      `Unsupported mascot manifest version ${JSON.stringify(doc.version)} (expected ${MASCOT_MANIFEST_VERSION})`
+    );
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const mascots: Mascot[] = [];
+  doc.mascots.forEach((entry: unknown, i: number) => {
+    const mascot = parseMascot(entry, i, errors);
+    if (!mascot) return;
+    if (seen.has(mascot.id)) {
+      errors.push(`mascots[${i}] duplicates id "${mascot.id}"`);
+      return;
+    }
+    seen.add(mascot.id);
+    mascots.push(mascot);
+  });
+
+  if (!mascots.length) {
+    errors.push("No valid mascots in manifest; using the default mascot");
+    mascots.push(DEFAULT_MASCOT);
+  }
+
+  let defaultMascotId: string | undefined;
+  if (isNonEmptyString(doc.defaultMascotId)) {
+    if (seen.has(doc.defaultMascotId)) defaultMascotId = doc.defaultMascotId;
+    else errors.push(`defaultMascotId "${doc.defaultMascotId}" does not match any mascot`);
+  }
+
+  return { manifest: { version: doc.version, defaultMascotId, mascots }, errors };
+}
+
+/** The mascots whose ids are listed; all of them when the list is empty or matches none. */
+export function filterMascots(mascots: Mascot[], ids?: string[]): Mascot[] {
+  if (!ids?.length) return mascots;
+  const allowed = mascots.filter((m) => ids.includes(m.id));
+  return allowed.length ? allowed : mascots;
+}
+
+/**
+ * The smallest poster at least `width` CSS pixels wide on this screen, for
+ * places that take a single URL (the video poster attribute).
+ */
+export function posterFor(mascot: Mascot, width: number): string {
+  const dpr = typeof window !== "undefined" ? window.devicePixelRatio || 1 : 1;
+  const wanted = width * dpr;
+  return mascot.posters?.find((p) => p.width >= wanted)?.url ?? mascot.poster;
+}
+
+/** `srcset` for the mascot's posters, if it has several sizes. */
+export function posterSrcSet(mascot: Mascot): string | undefined {
+  return mascot.posters?.map((p) => `${p.url} ${p.width}w`).join(", ");
+}
+
+/** The manifest shipped with the app (data/mascot-manifest.json). */
+export function getBundledManifest(): ManifestResult {
+  return parseMascotManifest(bundledManifest);
+}
+
+/** Fetch and validate a manifest from a URL. */
+export async function loadMascotManifest(url: string, signal?: AbortSignal): Promise<ManifestResult> {
+  const res = await fetch(url, { signal });
+  if (!res.ok) {
+    throw new MascotManifestError(`Could not load mascot manifest from ${url} (HTTP ${res.status})`);
+  }
+  let json: unknown;
+  try {
+    json = await res.json();
+  } catch {
+    throw new MascotManifestError(`Mascot manifest at ${url} is not valid JSON`);
+  }
+  return parseMascotManifest(json);
+}
@@ -0,0 +1,203 @@
+// lib/mockBackend.ts
+import { encodeSSE } from "./chatStream";
+import defaultScenario from "../data/mock-scenarios/default.json";
+import errorsScenario from "../data/mock-scenarios/errors.json";
+import slowScenario from "../data/mock-scenarios/slow.json";
+import voiceScenario from "../data/mock-scenarios/voice.json";
+
+/**
+ * Scriptable mock chat backend driven by scenario fixtures
+ * (data/mock-scenarios/*.json).
+ *
+ * A scenario is an ordered list of rules; the first rule whose `match`
+ * accepts the shopper's message answers it (a rule without `match` always
+ * matches, and `images: true` matches any message sent with images). A rule
+ * can reply with any JSON `response`, an HTTP `status`, extra `headers`, a
+ * verbatim `rawBody` (for malformed payloads) and its own `latencyMs`.
+ * Strings in the response may use {message}.
+ *
+ * Used by the widget in mock mode (through createMockFetch) and by /api/mock-chat, which stands in for
+ * the real backend behind /api/chat.
+ */
+
+export type MockMatch = {
+  /** Case-insensitive whole-word matches; any one is enough. */
+  keywords?: string[];
+  regex?: string;
+  flags?: string;
+  /** true matches any message sent with images. */
+  images?: boolean;
+};
+
+export type MockRule = {
+  name?: string;
+  match?: MockMatch;
+  latencyMs?: number;
+  status?: number;
+  headers?: Record<string, string>;
+  response?: unknown;
+  rawBody?: string;
+};
+
+export type MockScenario = {
+  name: string;
+  description?: string;
+  latencyMs?: number;
+  rules: MockRule[];
+};
+
+export type MockResult = {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  rule?: string;
+};
+
+export const DEFAULT_MOCK_SCENARIO = "default";
+
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  default: defaultScenario,
+  errors: errorsScenario,
+  slow: slowScenario,
+  voice: voiceScenario,
+};
+
+export function getMockScenario(name?: string | null): MockScenario {
+  return (name && MOCK_SCENARIOS[name]) || MOCK_SCENARIOS[DEFAULT_MOCK_SCENARIO];
+}
+
+/** ?mockScenario=errors on the host page, if present. */
+export function scenarioFromLocation(): string | null {
+  if (typeof window === "undefined") return null;
+  return new URLSearchParams(window.location.search).get("mockScenario");
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function ruleMatches(rule: MockRule, message: string, imageCount = 0): boolean {
+  const match = rule.match;
+  if (!match) return true;
+  if (match.images && imageCount > 0) return true;
+  if (match.keywords?.some((k) => new RegExp(`\\b${escapeRegExp(k)}\\b`, "i").test(message))) {
+    return true;
+  }
+  if (match.regex) {
+    try {
+      return new RegExp(match.regex, match.flags).test(message);
+    } catch {
+      console.warn(`mock rule ${rule.name ?? "(unnamed)"} has an invalid regex`);
+    }
+  }
+  return false;
+}
+
+export function findRule(scenario: MockScenario, message: string, imageCount = 0): MockRule | undefined {
+  return scenario.rules.find((r) => ruleMatches(r, message, imageCount));
+}
+
+function fillTemplate(value: unknown, vars: Record<string, string>): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\{(\w+)\}/g, (m, name) => (name in vars ? vars[name] : m));
+  }
+  if (Array.isArray(value)) return value.map((v) => fillTemplate(v, vars));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, fillTemplate(v, vars)])
+    );
+  }
+  return value;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Answer one message from a scenario, after the rule's simulated latency. */
+export async function runMockChat(
+  scenario: MockScenario,
+  message: string,
+  signal?: AbortSignal,
+  imageCount = 0
+): Promise<MockResult> {
+  const rule = findRule(scenario, message, imageCount);
+  await sleep(rule?.latencyMs ?? scenario.latencyMs ?? 0, signal);
+
+  if (!rule) {
+    return {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ error: `No rule in scenario "${scenario.name}" matched` }),
+    };
+  }
+
+  const headers = { "Content-Type": "application/json", ...rule.headers };
+  const body =
+    rule.rawBody !== undefined
+      ? rule.rawBody
+      : JSON.stringify(fillTemplate(rule.response ?? {}, { message }));
+  return { status: rule.status ?? 200, headers, body, rule: rule.name };
+}
+
+/** Wrap a mock result as a fetch Response so callers share the real code path. */
+export function toResponse(result: MockResult): Response {
+  return new Response(result.body, { status: result.status, headers: result.headers });
+}
+
+/**
+ * A fetch() that answers chat requests from a scenario, so the widget's chat
+ * client runs unchanged in mock mode. Requests with `stream: true` get a
+ * successful reply back word by word as server-sent events, like /api/mock-chat.
+ */
+export function createMockFetch(scenario: MockScenario, tokenDelayMs = 60): typeof fetch {
+  return async (_input, init) => {
+    const payload = JSON.parse(String(init?.body ?? "{}"));
+    const signal = init?.signal ?? undefined;
+    const imageCount = Array.isArray(payload.attachments) ? payload.attachments.length : 0;
+    const result = await runMockChat(scenario, String(payload.message ?? ""), signal, imageCount);
+
+    let parsed: any = null;
+    try {
+      parsed = JSON.parse(result.body);
+    } catch {
+      // malformed on purpose: returned as-is
+    }
+    if (payload.stream !== true || result.status !== 200 || typeof parsed?.text !== "string") {
+      return toResponse(result);
+    }
+
+    const { text, ...meta } = parsed;
+    const words: string[] = text.split(/(\s+)/).filter(Boolean);
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for (const word of words) {
+            await sleep(tokenDelayMs, signal);
+            controller.enqueue(encoder.encode(encodeSSE("token", { text: word })));
+          }
+          controller.enqueue(encoder.encode(encodeSSE("done", meta)));
+          controller.close();
+        } catch (err) {
+          controller.error(err);
+        }
+      },
+    });
+    return new Response(body, {
+      status: 200,
+      headers: { "Content-Type": "text/event-stream; charset=utf-8" },
+    });
+  };
+}
@@ -0,0 +1,301 @@
+// lib/pageContext.ts
+/**
+ * Storefront context sent with every chat message (`context` on the request),
+ * so the assistant knows what the shopper is looking at.
+ *
+ * Sources, later ones winning field by field:
+ * 1. detection from the page: URL, Shopify globals (ShopifyAnalytics.meta,
+ *    Shopify.currency / Shopify.locale), meta tags and the theme cart (/cart.js)
+ * 2. a <script type="application/json" id="academic-avatar-context"> block
+ *    rendered by the theme
+ * 3. whatever the host page pushes with AcademicAvatarWidget.setContext()
+ *
+ * sanitizePageContext() runs on both ends: it keeps only known fields, strips
+ * query parameters and anything that looks like an email or card/phone
+ * number, and trims the result to MAX_CONTEXT_BYTES.
+ */
+
+export type PageType =
+  | "home"
+  | "product"
+  | "collection"
+  | "cart"
+  | "search"
+  | "page"
+  | "blog"
+  | "article"
+  | "other";
+
+export type PageContextCartItem = {
+  variant_id?: number | string;
+  handle?: string;
+  title?: string;
+  quantity: number;
+};
+
+export type PageContext = {
+  url?: string;
+  pageType?: PageType;
+  product?: { handle?: string; id?: number | string; title?: string; variantId?: number | string };
+  collection?: { handle?: string; title?: string };
+  search?: { query?: string };
+  cart?: { itemCount: number; items: PageContextCartItem[] };
+  currency?: string;
+  locale?: string;
+};
+
+export const MAX_CONTEXT_BYTES = 4096;
+
+const MAX_STRING = 200;
+const MAX_CART_ITEMS = 20;
+const CONTEXT_SCRIPT_ID = "academic-avatar-context";
+// the only query parameters that say something about the page itself
+const KEPT_QUERY_PARAMS = ["variant", "q", "page", "sort_by"];
+export const PAGE_TYPES: PageType[] = ["home", "product", "collection", "cart", "search", "page", "blog", "article", "other"];
+
+const EMAIL = /[^\s@]+@[^\s@]+\.[^\s@]+/g;
+const LONG_NUMBER = /\+?\d[\d\s-]{7,}\d/g;
+
+function cleanString(v: unknown): string | undefined {
+  if (typeof v !== "string") return undefined;
+  const s = v.replace(EMAIL, "[email]").replace(LONG_NUMBER, "[number]").trim().slice(0, MAX_STRING);
+  return s || undefined;
+}
+
+function cleanId(v: unknown): number | string | undefined {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  return typeof v === "string" && /^[\w:/.-]{1,100}$/.test(v) ? v : undefined;
+}
+
+function cleanUrl(v: unknown): string | undefined {
+  if (typeof v !== "string") return undefined;
+  try {
+    const url = new URL(v);
+    const kept = new URLSearchParams();
+    for (const name of KEPT_QUERY_PARAMS) {
+      const value = url.searchParams.get(name);
+      if (value) kept.set(name, value);
+    }
+    const query = kept.toString();
+    return cleanString(`${url.origin}${url.pathname}${query ? `?${query}` : ""}`);
+  } catch {
+    return undefined;
+  }
+}
+
+function compact<T extends Record<string, unknown>>(obj: T): T | undefined {
+  const entries = Object.entries(obj).filter(([, v]) => v !== undefined);
+  return entries.length ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+function size(ctx: PageContext) {
+  return new TextEncoder().encode(JSON.stringify(ctx)).length;
+}
+
+/** Keep known, privacy-safe fields only and cap the size. */
+export function sanitizePageContext(raw: unknown): PageContext | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const r = raw as Record<string, any>;
+
+  const ctx: PageContext = {
+    url: cleanUrl(r.url),
+    pageType: PAGE_TYPES.includes(r.pageType) ? r.pageType : undefined,
+    product:
+      r.product && typeof r.product === "object"
+        ? compact({
+            handle: cleanString(r.product.handle),
+            id: cleanId(r.product.id),
+            title: cleanString(r.product.title),
+            variantId: cleanId(r.product.variantId),
+          })
+        : undefined,
+    collection:
+      r.collection && typeof r.collection === "object"
+        ? compact({ handle: cleanString(r.collection.handle), title: cleanString(r.collection.title) })
+        : undefined,
+    search:
+      r.search && typeof r.search === "object" ? compact({ query: cleanString(r.search.query) }) : undefined,
+    cart:
+      r.cart && typeof r.cart === "object" && Array.isArray(r.cart.items)
+        ? {
+            itemCount: Math.max(0, Number(r.cart.itemCount) || 0),
+            items: r.cart.items
+              .filter((i: any) => i && typeof i === "object")
+              .slice(0, MAX_CART_ITEMS)
+              .map((i: any) => ({
+                ...compact({
+                  variant_id: cleanId(i.variant_id),
+                  handle: cleanString(i.handle),
+                  title: cleanString(i.title),
+                }),
+                quantity: Math.max(0, Number(i.quantity) || 0),
+              })),
+          }
+        : undefined,
+    currency: typeof r.currency === "string" && /^[A-Z]{3}$/.test(r.currency) ? r.currency : undefined,
+    locale: typeof r.locale === "string" && /^[\w-]{2,16}$/.test(r.locale) ? r.locale : undefined,
+  };
+
+  // over budget: drop cart items from the end, then the URL
+  while (size(ctx) > MAX_CONTEXT_BYTES && ctx.cart?.items.length) ctx.cart.items.pop();
+  if (size(ctx) > MAX_CONTEXT_BYTES) delete ctx.url;
+  return compact(ctx);
+}
+
+/* ---- browser side ---- */
+
+let hostContext: Partial<PageContext> = {};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Context pushed by the host page; merged over what the widget detects. */
+export function setHostContext(ctx: Partial<PageContext> | null): void {
+  if (ctx != null && !isPlainObject(ctx)) {
+    console.warn("setContext expects an object or null");
+    return;
+  }
+  hostContext = ctx ? { ...hostContext, ...ctx } : {};
+}
+
+function pageTypeFromPath(path: string): PageType {
+  if (path === "/" || /^\/[a-z]{2}(-[a-z]{2})?\/?$/i.test(path)) return "home";
+  if (/\/products\//.test(path)) return "product";
+  if (/\/collections\//.test(path)) return "collection";
+  if (/\/cart\/?$/.test(path)) return "cart";
+  if (/\/search\/?$/.test(path)) return "search";
+  if (/\/blogs\/[^/]+\/[^/]+/.test(path)) return "article";
+  if (/\/blogs\//.test(path)) return "blog";
+  if (/\/pages\//.test(path)) return "page";
+  return "other";
+}
+
+const SHOPIFY_PAGE_TYPES: Record<string, PageType> = {
+  home: "home",
+  product: "product",
+  collection: "collection",
+  cart: "cart",
+  searchresults: "search",
+  page: "page",
+  blog: "blog",
+  article: "article",
+};
+
+function meta(property: string): string | undefined {
+  return (
+    document.querySelector<HTMLMetaElement>(`meta[property="${property}"], meta[name="${property}"]`)
+      ?.content || undefined
+  );
+}
+
+function themeContext(): Partial<PageContext> {
+  const el = document.getElementById(CONTEXT_SCRIPT_ID);
+  if (!el?.textContent) return {};
+  try {
+    const parsed = JSON.parse(el.textContent);
+    if (isPlainObject(parsed)) return parsed;
+    console.warn(`#${CONTEXT_SCRIPT_ID} must hold a JSON object`);
+    return {};
+  } catch {
+    console.warn(`#${CONTEXT_SCRIPT_ID} is not valid JSON`);
+    return {};
+  }
+}
+
+/** What can be read off the current page without help from the host. */
+export function detectPageContext(): PageContext {
+  const w = window as any;
+  const location = window.location;
+  const path = location.pathname;
+  const params = new URLSearchParams(location.search);
+  const analytics = w.ShopifyAnalytics?.meta ?? {};
+
+  const pageType =
+    SHOPIFY_PAGE_TYPES[String(analytics.page?.pageType ?? "").toLowerCase()] ?? pageTypeFromPath(path);
+  const ctx: PageContext = {
+    url: location.href,
+    pageType,
+    currency: w.Shopify?.currency?.active ?? meta("product:price:currency") ?? analytics.currency,
+    locale: w.Shopify?.locale ?? (document.documentElement.lang || undefined),
+  };
+
+  if (pageType === "product") {
+    const handle = path.match(/\/products\/([^/?#]+)/)?.[1];
+    ctx.product = {
+      handle,
+      id: analytics.product?.id,
+      title: meta("og:title"),
+      variantId: params.get("variant") ?? analytics.selectedVariantId,
+    };
+  }
+  if (pageType === "collection") {
+    ctx.collection = { handle: path.match(/\/collections\/([^/?#]+)/)?.[1], title: meta("og:title") };
+  }
+  if (pageType === "search") ctx.search = { query: params.get("q") ?? undefined };
+  return ctx;
+}
+
+type ThemeCart = { item_count: number; items: Array<{ variant_id: number; handle?: string; title?: string; quantity: number }> };
+
+const CART_CACHE_MS = 10_000;
+let cartCache: { at: number; cart: PageContext["cart"] } | null = null;
+
+/**
+ * The theme's own cart from Shopify's /cart.js (only on a Shopify storefront),
+ * cached briefly so a burst of messages doesn't refetch it.
+ */
+async function themeCart(): Promise<PageContext["cart"]> {
+  if (!(window as any).Shopify) return undefined;
+  if (cartCache && Date.now() - cartCache.at < CART_CACHE_MS) return cartCache.cart;
+  try {
+    const res = await fetch("/cart.js", { signal: AbortSignal.timeout?.(1500) });
+    if (!res.ok) return undefined;
+    const json = (await res.json()) as ThemeCart;
+    const cart = {
+      itemCount: json.item_count,
+      items: json.items.map((i) => ({
+        variant_id: i.variant_id,
+        handle: i.handle,
+        title: i.title,
+        quantity: i.quantity,
+      })),
+    };
+    cartCache = { at: Date.now(), cart };
+    return cart;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Forget the cached theme cart, e.g. after the widget added to it. */
+export function clearThemeCartCache(): void {
+  cartCache = null;
+}
+
+function merge(...parts: Array<Partial<PageContext>>): PageContext {
+  const out: PageContext = {};
+  for (const part of parts) {
+    for (const [key, value] of Object.entries(part) as Array<[keyof PageContext, any]>) {
+      if (value === undefined) continue;
+      const prev = out[key] as any;
+      (out as any)[key] =
+        prev && typeof prev === "object" && !Array.isArray(prev) && typeof value === "object"
+          ? { ...prev, ...value }
+          : value;
+    }
+  }
+  return out;
+}
+
+/**
+ * Context for the next chat message. `fallback` fills what the page can't
+ * tell (e.g. the widget's own cart and locale).
+ */
+export async function collectPageContext(fallback: Partial<PageContext> = {}): Promise<PageContext | undefined> {
+  if (typeof window === "undefined") return undefined;
+  const cart = await themeCart();
+  return sanitizePageContext(
+    merge(fallback, detectPageContext(), cart ? { cart } : {}, themeContext(), hostContext)
+  );
+}
@@ -0,0 +1,36 @@
+// lib/products.ts
+import type { RecommendedProduct } from "./chat";
+
+/**
+ * Display and link helpers for recommended products and storefront pages.
+ */
+
+/**
+ * Format a product price for a locale. Plain amounts ("89.00") with a
+ * currency go through Intl.NumberFormat; anything else ("$89.00", "from 20")
+ * is shown as the backend sent it.
+ */
+export function formatPrice(product: Pick<RecommendedProduct, "price" | "currency">, locale: string) {
+  const { price, currency } = product;
+  if (!price) return "";
+  if (!currency || !/^\d+(\.\d+)?$/.test(price)) return price;
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency }).format(Number(price));
+  } catch {
+    // unknown currency code
+    return `${price} ${currency}`;
+  }
+}
+
+/**
+ * URL of a storefront path. Relative when the widget runs inside the theme
+ * (the shop's own domain); absolute on the shop domain otherwise.
+ */
+export function storefrontUrl(path: string, shop?: string): string {
+  if (!shop || (typeof window !== "undefined" && window.location.hostname === shop)) return path;
+  return `https://${shop}${path}`;
+}
+
+export function productUrl(handle: string, shop?: string): string {
+  return storefrontUrl(`/products/${encodeURIComponent(handle)}`, shop);
+}
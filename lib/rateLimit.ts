@@ -0,0 +1,51 @@
+// lib/rateLimit.ts
+import type { NextApiRequest } from "next";
+
+/**
+ * Fixed-window request limits for API routes that cost money or disk
+ * (e.g. /api/tts). Counts are kept in memory per server instance, which is
+ * enough to stop one client from hammering a route.
+ */
+
+/** 0 when the request may go ahead, otherwise ms until the key may try again. */
+export type RateLimiter = (key: string) => number;
+
+// windows kept before expired ones are swept
+const MAX_KEYS = 10000;
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+  return (key) => {
+    const now = Date.now();
+    if (windows.size >= MAX_KEYS) {
+      windows.forEach((w, k) => {
+        if (now - w.start >= windowMs) windows.delete(k);
+      });
+    }
+    const current = windows.get(key);
+    if (!current || now - current.start >= windowMs) {
+      windows.set(key, { start: now, count: 1 });
+      return 0;
+    }
+    if (current.count >= limit) return current.start + windowMs - now;
+    current.count += 1;
+    return 0;
+  };
+}
+
+/**
+ * The caller's address. X-Forwarded-For is only read behind
+ * TRUSTED_PROXY_COUNT proxies, and then the entry the outermost of them
+ * appended; anything left of it was sent by the client.
+ */
+export function clientIp(req: NextApiRequest): string {
+  const direct = req.socket?.remoteAddress || "unknown";
+  const proxies = Math.floor(Number(process.env.TRUSTED_PROXY_COUNT) || 0);
+  if (proxies <= 0) return direct;
+  const forwarded = req.headers["x-forwarded-for"];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(",") : forwarded || "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops.length >= proxies ? hops[hops.length - proxies] : direct;
+}
@@ -0,0 +1,125 @@
+// lib/session.ts
+import type { Cart } from "./cart";
+import { ChatResponse, TranscriptMessage, createMessage } from "./chat";
+import type { HandoffState } from "./handoff";
+
+/**
+ * Conversation session persisted in localStorage so the chat survives page
+ * navigations in the storefront, and kept in sync between tabs of the same
+ * shop over BroadcastChannel.
+ */
+
+export type SessionState = {
+  id: string;
+  history: TranscriptMessage[];
+  lastReply: ChatResponse | null;
+  selectedMascotIndex: number;
+  open: boolean;
+  muted: boolean;
+  locale?: string;
+  /** Open conversation with a person, if any; other tabs and pages keep polling it. */
+  handoff?: HandoffState | null;
+  /** The shopper's cart, so later adds go to the same one. */
+  cart?: Cart | null;
+  /** Epoch ms of the last change; used for idle expiry. */
+  updatedAt: number;
+};
+
+export const DEFAULT_SESSION_IDLE_MINUTES = 30;
+
+const STORAGE_PREFIX = "academic-avatar:session:";
+const CHANNEL_PREFIX = "academic-avatar:";
+
+function storageKey(shop?: string) {
+  return STORAGE_PREFIX + (shop || "default");
+}
+
+export function createSessionId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function newSession(overrides: Partial<SessionState> = {}): SessionState {
+  return {
+    id: createSessionId(),
+    history: [],
+    lastReply: null,
+    selectedMascotIndex: 0,
+    open: false,
+    muted: false,
+    updatedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+export function isExpired(session: Pick<SessionState, "updatedAt">, idleMinutes: number): boolean {
+  return Date.now() - session.updatedAt > idleMinutes * 60_000;
+}
+
+// sessions saved before messages had ids/status stored plain { role, content }
+function upgradeHistory(history: any[], savedAt: number): TranscriptMessage[] {
+  return history
+    .filter((m) => m && typeof m.content === "string")
+    .map((m) =>
+      typeof m.id === "string"
+        ? m
+        : createMessage(m.role === "user" ? "user" : "assistant", m.content, { createdAt: savedAt })
+    );
+}
+
+/**
+ * Restore the stored session for a shop. Returns null when there is none,
+ * it is unreadable, or it has been idle for longer than idleMinutes.
+ */
+export function loadSession(shop: string | undefined, idleMinutes: number): SessionState | null {
+  try {
+    const raw = window.localStorage.getItem(storageKey(shop));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as SessionState;
+    if (!parsed || typeof parsed.id !== "string" || !Array.isArray(parsed.history)) return null;
+    if (isExpired(parsed, idleMinutes)) {
+      window.localStorage.removeItem(storageKey(shop));
+      return null;
+    }
+    // a reply that was still streaming when the page unloaded is as done as it gets
+    const history = upgradeHistory(parsed.history, parsed.updatedAt).map((m) =>
+      m.status === "sending" || m.status === "streaming" ? { ...m, status: "sent" as const } : m
+    );
+    return { ...parsed, history };
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(shop: string | undefined, session: SessionState): void {
+  try {
+    window.localStorage.setItem(storageKey(shop), JSON.stringify(session));
+  } catch {
+    // storage full or disabled (private mode): the session just won't persist
+  }
+}
+
+export type SessionChannel = {
+  post(session: SessionState): void;
+  close(): void;
+};
+
+/** Subscribe to session updates from other tabs of the same shop. */
+export function openSessionChannel(
+  shop: string | undefined,
+  onUpdate: (session: SessionState) => void
+): SessionChannel {
+  if (typeof BroadcastChannel === "undefined") {
+    return { post() {}, close() {} };
+  }
+  const channel = new BroadcastChannel(CHANNEL_PREFIX + (shop || "default"));
+  channel.onmessage = (evt) => {
+    if (evt.data && typeof evt.data.id === "string") onUpdate(evt.data as SessionState);
+  };
+  return {
+    post: (session) => channel.postMessage(session),
+    close: () => channel.close(),
+  };
+}
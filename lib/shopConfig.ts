@@ -0,0 +1,242 @@
+// lib/shopConfig.ts
+import { AvatarWidgetConfig, resolveApiUrl } from "./widgetConfig";
+import { THEME_PRESETS, ColorScheme, ThemePalette, WidgetThemeConfig } from "./theme";
+import { MOCK_SCENARIOS } from "./mockBackend";
+import { EngagementRule, validateEngagementRules } from "./engagement";
+
+/**
+ * Per-shop widget settings saved from the admin page (pages/admin) through
+ * /api/widget-config, and loaded by the widget at runtime.
+ *
+ * `persona` is instructions for the assistant's tone; it stays on the server
+ * (pages/api/chat.ts forwards it to the backend) and is left out of the
+ * public config.
+ */
+
+export const SHOP_CONFIG_ENDPOINT = "/api/widget-config";
+
+export const MAX_GREETING_LENGTH = 300;
+export const MAX_PERSONA_LENGTH = 2000;
+const MAX_MASCOT_IDS = 20;
+const MAX_SELECTOR_LENGTH = 500;
+const LOAD_TIMEOUT_MS = 3000;
+
+export type ShopConfig = {
+  defaultMascotId?: string;
+  /** Mascots the shopper can pick from; all of them when empty. */
+  mascotIds?: string[];
+  greeting?: string;
+  persona?: string;
+  theme?: WidgetThemeConfig;
+  voiceInput?: boolean;
+  imageInput?: boolean;
+  voiceOutput?: boolean;
+  serverTts?: boolean;
+  /** Let shoppers reach a person through /api/handoff. */
+  handoff?: boolean;
+  /** Keep message text in analytics events; /api/events strips it otherwise. */
+  analyticsIncludeText?: boolean;
+  mockMode?: boolean;
+  mockScenario?: string;
+  /** Host-page elements the mascot must not walk over. */
+  avoidSelector?: string;
+  /** Proactive engagement rules (lib/engagement.ts). */
+  engagement?: EngagementRule[];
+  /** Epoch ms of the last save. */
+  updatedAt?: number;
+};
+
+export type PublicShopConfig = Omit<ShopConfig, "persona">;
+
+export type ShopConfigValidation = {
+  value: ShopConfig | null;
+  issues: string[];
+};
+
+const PALETTE_KEYS: (keyof ThemePalette)[] = [
+  "primary",
+  "onPrimary",
+  "surface",
+  "text",
+  "textMuted",
+  "border",
+  "userBubble",
+  "assistantBubble",
+  "danger",
+  "dangerBg",
+  "success",
+];
+
+// plain colors only: no url(), var() or anything else a style value could carry
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%deg]+\)|[a-z]{3,20})$/i;
+
+const isString = (v: unknown): v is string => typeof v === "string";
+
+function validatePalette(raw: unknown, path: string, issues: string[]): Partial<ThemePalette> | undefined {
+  if (raw === undefined) return undefined;
+  if (!raw || typeof raw !== "object") {
+    issues.push(`${path} must be an object`);
+    return undefined;
+  }
+  const out: Partial<ThemePalette> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!PALETTE_KEYS.includes(key as keyof ThemePalette)) {
+      issues.push(`${path}.${key} is not a theme color`);
+    } else if (!isString(value) || !COLOR_PATTERN.test(value.trim())) {
+      issues.push(`${path}.${key} is not a color`);
+    } else {
+      out[key as keyof ThemePalette] = value.trim();
+    }
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+function validateTheme(raw: unknown, issues: string[]): WidgetThemeConfig | undefined {
+  if (raw === undefined) return undefined;
+  if (!raw || typeof raw !== "object") {
+    issues.push("theme must be an object");
+    return undefined;
+  }
+  const t = raw as Record<string, unknown>;
+  const theme: WidgetThemeConfig = {};
+  if (t.preset !== undefined) {
+    if (isString(t.preset) && THEME_PRESETS[t.preset]) theme.preset = t.preset;
+    else issues.push(`theme.preset "${String(t.preset)}" is unknown`);
+  }
+  if (t.colorScheme !== undefined) {
+    if (["light", "dark", "auto"].includes(t.colorScheme as string)) theme.colorScheme = t.colorScheme as ColorScheme;
+    else issues.push("theme.colorScheme must be light, dark or auto");
+  }
+  theme.colors = validatePalette(t.colors, "theme.colors", issues);
+  theme.darkColors = validatePalette(t.darkColors, "theme.darkColors", issues);
+  if (t.font !== undefined) {
+    if (isString(t.font) && t.font.length <= 200 && !/[;{}]|url\(/i.test(t.font)) theme.font = t.font;
+    else issues.push("theme.font is not a font family list");
+  }
+  for (const key of ["radius", "mascotSize", "dialogWidth", "offsetX", "offsetY", "mobileBreakpoint"] as const) {
+    if (t[key] === undefined) continue;
+    if (typeof t[key] === "number" && Number.isFinite(t[key])) theme[key] = t[key] as number;
+    else issues.push(`theme.${key} must be a number`);
+  }
+  if (t.mobileFullscreen !== undefined) {
+    if (typeof t.mobileFullscreen === "boolean") theme.mobileFullscreen = t.mobileFullscreen;
+    else issues.push("theme.mobileFullscreen must be true or false");
+  }
+  return theme;
+}
+
+/**
+ * Check a config posted by the admin page. Fields with problems are dropped
+ * and reported; only a non-object is rejected outright.
+ */
+export function validateShopConfig(raw: unknown): ShopConfigValidation {
+  const issues: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { value: null, issues: ["config must be an object"] };
+  }
+  const c = raw as Record<string, unknown>;
+  const config: ShopConfig = {};
+
+  if (c.defaultMascotId !== undefined) {
+    if (isString(c.defaultMascotId) && c.defaultMascotId.length <= 100) config.defaultMascotId = c.defaultMascotId;
+    else issues.push("defaultMascotId must be a mascot id");
+  }
+  if (c.mascotIds !== undefined) {
+    if (Array.isArray(c.mascotIds) && c.mascotIds.every(isString)) {
+      config.mascotIds = c.mascotIds.slice(0, MAX_MASCOT_IDS);
+    } else {
+      issues.push("mascotIds must be a list of mascot ids");
+    }
+  }
+  if (c.greeting !== undefined) {
+    if (isString(c.greeting)) config.greeting = c.greeting.trim().slice(0, MAX_GREETING_LENGTH);
+    else issues.push("greeting must be text");
+  }
+  if (c.persona !== undefined) {
+    if (isString(c.persona)) config.persona = c.persona.trim().slice(0, MAX_PERSONA_LENGTH);
+    else issues.push("persona must be text");
+  }
+  const theme = validateTheme(c.theme, issues);
+  if (theme) config.theme = theme;
+  for (const key of ["voiceInput", "imageInput", "voiceOutput", "serverTts", "handoff", "analyticsIncludeText", "mockMode"] as const) {
+    if (c[key] === undefined) continue;
+    if (typeof c[key] === "boolean") config[key] = c[key] as boolean;
+    else issues.push(`${key} must be true or false`);
+  }
+  if (c.mockScenario !== undefined) {
+    if (isString(c.mockScenario) && MOCK_SCENARIOS[c.mockScenario]) config.mockScenario = c.mockScenario;
+    else issues.push(`mockScenario "${String(c.mockScenario)}" is unknown`);
+  }
+  if (c.avoidSelector !== undefined) {
+    // only ever passed to querySelectorAll, which ignores an invalid one
+    if (isString(c.avoidSelector) && c.avoidSelector.length <= MAX_SELECTOR_LENGTH) {
+      config.avoidSelector = c.avoidSelector.trim();
+    } else {
+      issues.push("avoidSelector must be a CSS selector");
+    }
+  }
+  if (c.engagement !== undefined) {
+    const { rules, issues: ruleIssues } = validateEngagementRules(c.engagement);
+    config.engagement = rules;
+    issues.push(...ruleIssues.map((issue) => `engagement: ${issue}`));
+  }
+  return { value: config, issues };
+}
+
+export function publicShopConfig(config: ShopConfig): PublicShopConfig {
+  const { persona: _persona, ...rest } = config;
+  return rest;
+}
+
+/** Widget props for a stored config. */
+export function shopConfigToWidgetConfig(config: PublicShopConfig): AvatarWidgetConfig {
+  return {
+    defaultMascotId: config.defaultMascotId || undefined,
+    mascotIds: config.mascotIds?.length ? config.mascotIds : undefined,
+    greeting: config.greeting || undefined,
+    theme: config.theme,
+    voiceInput: config.voiceInput,
+    imageInput: config.imageInput,
+    voiceOutput: config.voiceOutput,
+    serverTts: config.serverTts,
+    handoff: config.handoff,
+    analyticsIncludeText: config.analyticsIncludeText,
+    mockMode: config.mockMode,
+    mockScenario: config.mockScenario,
+    avoidSelector: config.avoidSelector || undefined,
+    engagementRules: config.engagement?.length ? config.engagement : undefined,
+  };
+}
+
+/** Stored config fills in whatever the host page didn't set. */
+export function mergeWidgetConfig(host: AvatarWidgetConfig, stored: AvatarWidgetConfig): AvatarWidgetConfig {
+  const merged: AvatarWidgetConfig = { ...stored };
+  for (const [key, value] of Object.entries(host)) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+  // theme overrides merge field by field
+  if (host.theme && stored.theme) {
+    merged.theme = { ...stored.theme };
+    for (const [key, value] of Object.entries(host.theme)) {
+      if (value !== undefined) (merged.theme as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/** The shop's saved widget config, or {} when there is none or it can't be loaded. */
+export async function fetchShopConfig(shop: string | undefined, apiEndpoint?: string): Promise<AvatarWidgetConfig> {
+  const url = resolveApiUrl(`${SHOP_CONFIG_ENDPOINT}?shop=${encodeURIComponent(shop ?? "")}`, apiEndpoint);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), LOAD_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    if (!res.ok) return {};
+    const body = await res.json();
+    return body?.config ? shopConfigToWidgetConfig(body.config) : {};
+  } catch {
+    return {};
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,73 @@
+// lib/shopConfigStore.ts
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { ShopConfig } from "./shopConfig";
+
+/**
+ * Local JSON store for per-shop widget config (lib/shopConfig.ts), used by
+ * /api/widget-config and /api/chat.
+ *
+ * All shops live in one file, SHOP_CONFIG_FILE (default
+ * .data/shop-config.json), keyed by shop domain. It is read once and kept in
+ * memory; saves rewrite the whole file. The file system must be writable, so
+ * this is for single-instance deployments.
+ */
+
+/** Key for a widget without a configured shop. */
+export const DEFAULT_SHOP_KEY = "default";
+
+type StoreFile = Record<string, ShopConfig>;
+
+let cache: Promise<StoreFile> | null = null;
+// saves run one after another so they never interleave writes
+let writing: Promise<void> = Promise.resolve();
+
+function storePath(): string {
+  return process.env.SHOP_CONFIG_FILE || path.join(process.cwd(), ".data", "shop-config.json");
+}
+
+export function shopKey(shop: unknown): string {
+  return typeof shop === "string" && shop.trim() ? shop.trim().toLowerCase().slice(0, 255) : DEFAULT_SHOP_KEY;
+}
+
+// no prototype, so a shop named "__proto__" or "constructor" is just a key
+function emptyStore(): StoreFile {
+  return Object.create(null);
+}
+
+async function readStore(): Promise<StoreFile> {
+  const store = emptyStore();
+  try {
+    const parsed = JSON.parse(await readFile(storePath(), "utf8"));
+    if (parsed && typeof parsed === "object") Object.assign(store, parsed);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") console.error("shop config store unreadable", err);
+  }
+  return store;
+}
+
+function load(): Promise<StoreFile> {
+  cache ??= readStore();
+  return cache;
+}
+
+export async function getShopConfig(shop: unknown): Promise<ShopConfig | null> {
+  const store = await load();
+  return store[shopKey(shop)] ?? null;
+}
+
+export async function saveShopConfig(shop: unknown, config: ShopConfig): Promise<ShopConfig> {
+  const store = await load();
+  const saved = { ...config, updatedAt: Date.now() };
+  store[shopKey(shop)] = saved;
+  const file = storePath();
+  const write = writing.then(async () => {
+    await mkdir(path.dirname(file), { recursive: true });
+    // write then rename, so a crash never leaves half a file behind
+    await writeFile(`${file}.tmp`, JSON.stringify(store, null, 2) + "\n", "utf8");
+    await rename(`${file}.tmp`, file);
+  });
+  writing = write.catch(() => {});
+  await write;
+  return saved;
+}
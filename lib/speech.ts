@@ -0,0 +1,107 @@
+// lib/speech.ts
+import { LocaleInfo, pickVoiceForLocale } from "./i18n";
+import type { MascotVoice } from "./mascots";
+
+/**
+ * Browser-side speech helpers: picking a mascot's voice, splitting long
+ * replies for speechSynthesis, and a queue that plays one reply at a time.
+ */
+
+// Chrome stops long utterances after ~15 seconds, so replies are spoken in
+// pieces of at most this many characters
+const MAX_CHUNK_LENGTH = 220;
+const VOICES_TIMEOUT_MS = 1000;
+
+/**
+ * The installed voices. Chrome loads them asynchronously, so the first call
+ * waits for `voiceschanged` (up to a second).
+ */
+export function loadVoices(): Promise<SpeechSynthesisVoice[]> {
+  if (typeof window === "undefined" || !window.speechSynthesis) return Promise.resolve([]);
+  const synth = window.speechSynthesis;
+  const voices = synth.getVoices();
+  if (voices.length) return Promise.resolve(voices);
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      synth.removeEventListener("voiceschanged", done);
+      resolve(synth.getVoices());
+    };
+    const timer = setTimeout(done, VOICES_TIMEOUT_MS);
+    synth.addEventListener("voiceschanged", done);
+  });
+}
+
+/**
+ * The first of the mascot's preferred voices that is installed and speaks
+ * the locale's language, else the locale's default voice.
+ */
+export function pickVoice(
+  voices: SpeechSynthesisVoice[],
+  profile: MascotVoice | undefined,
+  info: LocaleInfo
+): SpeechSynthesisVoice | undefined {
+  const forLocale = voices.filter((v) => v.lang.toLowerCase().startsWith(info.code));
+  for (const name of profile?.voices ?? []) {
+    const wanted = name.toLowerCase();
+    const match = forLocale.find((v) => v.name.toLowerCase().includes(wanted));
+    if (match) return match;
+  }
+  return pickVoiceForLocale(info);
+}
+
+/** Split text into sentence-aligned pieces of at most MAX_CHUNK_LENGTH characters. */
+export function speechChunks(text: string, maxLength = MAX_CHUNK_LENGTH): string[] {
+  const sentences = text.match(/[^.!?\n]+[.!?]*\s*/g) ?? [text];
+  const chunks: string[] = [];
+  let current = "";
+  const push = (piece: string) => {
+    if (piece.trim()) chunks.push(piece.trim());
+  };
+  for (const sentence of sentences) {
+    if ((current + sentence).length <= maxLength) {
+      current += sentence;
+      continue;
+    }
+    push(current);
+    current = "";
+    // a single sentence that is too long is split between words
+    let rest = sentence;
+    while (rest.length > maxLength) {
+      const cut = rest.lastIndexOf(" ", maxLength);
+      const at = cut > 0 ? cut : maxLength;
+      push(rest.slice(0, at));
+      rest = rest.slice(at);
+    }
+    current = rest;
+  }
+  push(current);
+  return chunks;
+}
+
+export type SpeechQueue = {
+  /**
+   * Run `task` after everything queued before it. It is skipped if the queue
+   * is cleared first; `signal` aborts when the queue is cleared while it runs.
+   */
+  enqueue(task: (signal: AbortSignal) => Promise<void>): Promise<void>;
+  /** Drop queued tasks and abort the running one. */
+  clear(): void;
+};
+
+export function createSpeechQueue(): SpeechQueue {
+  let tail: Promise<void> = Promise.resolve();
+  let controller = new AbortController();
+  return {
+    enqueue(task) {
+      const { signal } = controller;
+      const run = tail.then(() => (signal.aborted ? undefined : task(signal)));
+      tail = run.catch(() => {});
+      return run;
+    },
+    clear() {
+      controller.abort();
+      controller = new AbortController();
+    },
+  };
+}
@@ -0,0 +1,225 @@
+// lib/theme.ts
+import { useEffect, useState } from "react";
+
+/**
+ * Widget theming and layout.
+ *
+ * A theme is a preset (THEME_PRESETS) plus the merchant's overrides. It is
+ * turned into CSS custom properties (`--aw-*`, see themeVars) on the widget's
+ * root element, and every style in the widget reads those variables, so a
+ * theme never needs a code change:
+ *
+ *   --aw-primary, --aw-on-primary, --aw-surface, --aw-text, --aw-text-muted,
+ *   --aw-border, --aw-user-bubble, --aw-assistant-bubble, --aw-danger,
+ *   --aw-danger-bg, --aw-success      palette of the active color scheme
+ *   --aw-primary-strong, --aw-primary-tint, --aw-primary-border
+ *                                     derived from --aw-primary
+ *   --aw-font, --aw-radius, --aw-radius-sm, --aw-mascot-size,
+ *   --aw-dialog-width, --aw-offset-x, --aw-offset-y
+ *
+ * Presets come from shop config (NEXT_PUBLIC_THEME, or data-theme on the
+ * embed script); unknown names fall back to "default".
+ */
+
+export type ThemePalette = {
+  primary: string;
+  onPrimary: string;
+  surface: string;
+  text: string;
+  textMuted: string;
+  border: string;
+  userBubble: string;
+  assistantBubble: string;
+  danger: string;
+  dangerBg: string;
+  success: string;
+};
+
+export type ColorScheme = "light" | "dark" | "auto";
+
+export type WidgetTheme = {
+  colorScheme: ColorScheme;
+  light: ThemePalette;
+  dark: ThemePalette;
+  font: string;
+  /** Corner radius of the bubble, dialog and mascot, in px. */
+  radius: number;
+  /** Width and height of the mascot, in px. */
+  mascotSize: number;
+  /** Dialog width in px; it never exceeds the viewport. */
+  dialogWidth: number;
+  /** Distance from the page edges, in px. */
+  offsetX: number;
+  offsetY: number;
+  /** Viewports narrower than this (px) use the mobile layout. */
+  mobileBreakpoint: number;
+  /** Mobile layout: the chat dialog fills the screen. */
+  mobileFullscreen: boolean;
+};
+
+/** What shop config may set: a preset name plus any overrides. */
+export type WidgetThemeConfig = Partial<Omit<WidgetTheme, "light" | "dark">> & {
+  preset?: string;
+  /** Overrides applied to both color schemes. */
+  colors?: Partial<ThemePalette>;
+  /** Overrides for the dark scheme only. */
+  darkColors?: Partial<ThemePalette>;
+};
+
+const LIGHT: ThemePalette = {
+  primary: "rgb(99,102,241)",
+  onPrimary: "#fff",
+  surface: "#fff",
+  text: "#111827",
+  textMuted: "#6b7280",
+  border: "rgba(16,24,40,0.08)",
+  userBubble: "#eef2ff",
+  assistantBubble: "#f3f4f6",
+  danger: "#b91c1c",
+  dangerBg: "#fef2f2",
+  success: "rgb(16,185,129)",
+};
+
+const DARK: ThemePalette = {
+  primary: "rgb(129,140,248)",
+  onPrimary: "#0f172a",
+  surface: "#1f2937",
+  text: "#f9fafb",
+  textMuted: "#9ca3af",
+  border: "rgba(255,255,255,0.12)",
+  userBubble: "#312e81",
+  assistantBubble: "#374151",
+  danger: "#fca5a5",
+  dangerBg: "#450a0a",
+  success: "rgb(52,211,153)",
+};
+
+export const DEFAULT_THEME: WidgetTheme = {
+  colorScheme: "light",
+  light: LIGHT,
+  dark: DARK,
+  font: 'system-ui, -apple-system, "Segoe UI", Roboto, Arial, sans-serif',
+  radius: 12,
+  mascotSize: 160,
+  dialogWidth: 380,
+  offsetX: 28,
+  offsetY: 24,
+  mobileBreakpoint: 480,
+  mobileFullscreen: true,
+};
+
+export const THEME_PRESETS: Record<string, WidgetThemeConfig> = {
+  default: {},
+  midnight: { colorScheme: "dark" },
+  auto: { colorScheme: "auto" },
+  forest: {
+    colors: { primary: "rgb(5,150,105)", userBubble: "#ecfdf5" },
+    darkColors: { primary: "rgb(52,211,153)", userBubble: "#064e3b" },
+  },
+  rose: {
+    colors: { primary: "rgb(225,29,72)", userBubble: "#fff1f2" },
+    darkColors: { primary: "rgb(251,113,133)", userBubble: "#4c0519" },
+    radius: 18,
+  },
+  mono: {
+    colors: { primary: "#111827", userBubble: "#f3f4f6", assistantBubble: "#f9fafb" },
+    darkColors: { primary: "#f9fafb", onPrimary: "#111827", userBubble: "#4b5563" },
+    radius: 4,
+    font: 'ui-monospace, "SF Mono", Menlo, Consolas, monospace',
+  },
+};
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/** Preset + overrides → a complete theme. Out-of-range sizes are clamped. */
+export function resolveTheme(config: WidgetThemeConfig = {}): WidgetTheme {
+  const preset = THEME_PRESETS[config.preset ?? "default"] ?? THEME_PRESETS.default;
+  const merged = { ...preset, ...stripUndefined(config) };
+  const base = DEFAULT_THEME;
+  return {
+    colorScheme: ["light", "dark", "auto"].includes(merged.colorScheme as string)
+      ? (merged.colorScheme as ColorScheme)
+      : base.colorScheme,
+    light: { ...base.light, ...preset.colors, ...config.colors },
+    dark: { ...base.dark, ...preset.darkColors, ...config.colors, ...config.darkColors },
+    font: merged.font || base.font,
+    radius: clampNumber(merged.radius, 0, 32, base.radius),
+    mascotSize: clampNumber(merged.mascotSize, 80, 240, base.mascotSize),
+    dialogWidth: clampNumber(merged.dialogWidth, 280, 640, base.dialogWidth),
+    offsetX: clampNumber(merged.offsetX, 0, 200, base.offsetX),
+    offsetY: clampNumber(merged.offsetY, 0, 200, base.offsetY),
+    mobileBreakpoint: clampNumber(merged.mobileBreakpoint, 0, 1024, base.mobileBreakpoint),
+    mobileFullscreen: merged.mobileFullscreen ?? base.mobileFullscreen,
+  };
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/** The CSS custom properties for `theme` in the given scheme. */
+export function themeVars(theme: WidgetTheme, dark: boolean): Record<string, string> {
+  const p = dark ? theme.dark : theme.light;
+  return {
+    "--aw-primary": p.primary,
+    "--aw-on-primary": p.onPrimary,
+    "--aw-surface": p.surface,
+    "--aw-text": p.text,
+    "--aw-text-muted": p.textMuted,
+    "--aw-border": p.border,
+    "--aw-user-bubble": p.userBubble,
+    "--aw-assistant-bubble": p.assistantBubble,
+    "--aw-danger": p.danger,
+    "--aw-danger-bg": p.dangerBg,
+    "--aw-success": p.success,
+    "--aw-primary-strong": "color-mix(in srgb, var(--aw-primary) 80%, var(--aw-text))",
+    "--aw-primary-tint": "color-mix(in srgb, var(--aw-primary) 6%, transparent)",
+    "--aw-primary-border": "color-mix(in srgb, var(--aw-primary) 30%, transparent)",
+    "--aw-font": theme.font,
+    "--aw-radius": `${theme.radius}px`,
+    "--aw-radius-sm": `${Math.round((theme.radius * 2) / 3)}px`,
+    "--aw-mascot-size": `${theme.mascotSize}px`,
+    "--aw-dialog-width": `${theme.dialogWidth}px`,
+    "--aw-offset-x": `${theme.offsetX}px`,
+    "--aw-offset-y": `${theme.offsetY}px`,
+  };
+}
+
+/**
+ * Theme overrides from an embed script's data-* attributes: data-theme,
+ * data-color-scheme, data-primary-color, data-font, data-radius,
+ * data-mascot-size, data-dialog-width, data-offset-x, data-offset-y,
+ * data-mobile-fullscreen.
+ */
+export function themeFromDataset(data: DOMStringMap): WidgetThemeConfig {
+  const num = (v?: string) => (v && Number.isFinite(Number(v)) ? Number(v) : undefined);
+  return {
+    preset: data.theme || undefined,
+    colorScheme: (data.colorScheme as ColorScheme) || undefined,
+    colors: data.primaryColor ? { primary: data.primaryColor } : undefined,
+    font: data.font || undefined,
+    radius: num(data.radius),
+    mascotSize: num(data.mascotSize),
+    dialogWidth: num(data.dialogWidth),
+    offsetX: num(data.offsetX),
+    offsetY: num(data.offsetY),
+    mobileFullscreen: data.mobileFullscreen ? data.mobileFullscreen !== "false" : undefined,
+  };
+}
+
+/** Whether a media query matches, kept up to date; false during SSR. */
+export function useMediaQuery(query: string): boolean {
+  const [matches, setMatches] = useState(
+    () => typeof window !== "undefined" && !!window.matchMedia?.(query).matches
+  );
+  useEffect(() => {
+    if (typeof window === "undefined" || !window.matchMedia) return;
+    const mql = window.matchMedia(query);
+    const onChange = () => setMatches(mql.matches);
+    onChange();
+    mql.addEventListener("change", onChange);
+    return () => mql.removeEventListener("change", onChange);
+  }, [query]);
+  return matches;
+}
@@ -0,0 +1,59 @@
+// lib/tts.ts
+import { resolveApiUrl } from "./widgetConfig";
+
+/**
+ * Server-side text to speech, shared by the widget and /api/tts.
+ *
+ * POST /api/tts { text, voice?, lang? } returns { url } for audio of the text
+ * in that voice; the audio is cached, so repeating a reply costs nothing.
+ */
+
+export const TTS_ENDPOINT = "/api/tts";
+
+export const MAX_TTS_TEXT_LENGTH = 1500;
+
+export type TtsRequest = {
+  text: string;
+  /** Provider voice id, e.g. a mascot's `voice.serverVoice`. */
+  voice?: string;
+  lang?: string;
+};
+
+export type TtsResponse = {
+  url: string;
+};
+
+const REQUEST_TIMEOUT_MS = 8000;
+
+/**
+ * Audio URL for a reply, or null when the route is unavailable or fails;
+ * callers fall back to browser TTS.
+ */
+export async function fetchSpeechUrl(
+  request: TtsRequest,
+  apiEndpoint?: string,
+  signal?: AbortSignal
+): Promise<string | null> {
+  if (!request.text || request.text.length > MAX_TTS_TEXT_LENGTH) return null;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort);
+  try {
+    const res = await fetch(resolveApiUrl(TTS_ENDPOINT, apiEndpoint), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+      signal: controller.signal,
+    });
+    if (!res.ok) return null;
+    const body: TtsResponse = await res.json();
+    // the route answers with a path on this deployment
+    return typeof body?.url === "string" ? resolveApiUrl(body.url, apiEndpoint) : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
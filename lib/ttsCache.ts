@@ -0,0 +1,110 @@
+// lib/ttsCache.ts
+import { createHash } from "crypto";
+import { mkdir, readFile, readdir, rename, stat, unlink, utimes, writeFile } from "fs/promises";
+import path from "path";
+import { TtsRequest } from "./tts";
+import { SpeechAudio, TtsError, TtsProvider } from "./ttsProviders";
+
+/**
+ * Disk cache for /api/tts audio, keyed by a hash of the provider, voice,
+ * language and text. Files live in TTS_CACHE_DIR (default .data/tts) as
+ * <hash>.<ext>, so identical replies are synthesized once. Reading a file
+ * touches it, and once the directory grows past TTS_CACHE_MAX_MB (default
+ * 200) the least recently used files are deleted.
+ */
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/ogg": "ogg",
+  "audio/webm": "webm",
+  "audio/aac": "aac",
+};
+
+// synthesis already running for a key, so concurrent requests share it
+const pending = new Map<string, Promise<string>>();
+
+const DEFAULT_MAX_CACHE_MB = 200;
+
+function cacheDir(): string {
+  return process.env.TTS_CACHE_DIR || path.join(process.cwd(), ".data", "tts");
+}
+
+function maxCacheBytes(): number {
+  return (Number(process.env.TTS_CACHE_MAX_MB) || DEFAULT_MAX_CACHE_MB) * 1024 * 1024;
+}
+
+export function isSpeechId(id: unknown): id is string {
+  return typeof id === "string" && /^[a-f0-9]{64}$/.test(id);
+}
+
+export function speechId(provider: string, { text, voice, lang }: TtsRequest): string {
+  return createHash("sha256")
+    .update(JSON.stringify([provider, voice ?? "", lang ?? "", text]))
+    .digest("hex");
+}
+
+/** Cached audio for an id, or null. */
+export async function readSpeech(id: string): Promise<SpeechAudio | null> {
+  for (const [contentType, ext] of Object.entries(EXTENSIONS)) {
+    const file = path.join(cacheDir(), `${id}.${ext}`);
+    try {
+      const audio = await readFile(file);
+      // the modification time doubles as last use for eviction
+      const now = new Date();
+      await utimes(file, now, now).catch(() => {});
+      return { audio, contentType };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+  }
+  return null;
+}
+
+async function writeSpeech(id: string, { audio, contentType }: SpeechAudio) {
+  const ext = EXTENSIONS[contentType];
+  const dir = cacheDir();
+  await mkdir(dir, { recursive: true });
+  const file = path.join(dir, `${id}.${ext}`);
+  // write then rename, so a reader never sees half a file
+  await writeFile(`${file}.tmp`, audio);
+  await rename(`${file}.tmp`, file);
+}
+
+/* Delete the least recently used files until the cache fits its cap */
+async function evictSpeech() {
+  const dir = cacheDir();
+  const files = await Promise.all(
+    (await readdir(dir))
+      .filter((name) => !name.endsWith(".tmp"))
+      .map(async (name) => {
+        const file = path.join(dir, name);
+        const { size, mtimeMs } = await stat(file);
+        return { file, size, mtimeMs };
+      })
+  );
+  let total = files.reduce((sum, f) => sum + f.size, 0);
+  const max = maxCacheBytes();
+  for (const f of files.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+    if (total <= max) break;
+    await unlink(f.file).catch(() => {});
+    total -= f.size;
+  }
+}
+
+/** Id of the cached audio for a request, synthesizing it first if needed. */
+export function cachedSpeech(provider: TtsProvider, request: TtsRequest): Promise<string> {
+  const id = speechId(provider.name, request);
+  const running = pending.get(id);
+  if (running) return running;
+  const job = (async () => {
+    if (await readSpeech(id)) return id;
+    const audio = await provider.synthesize(request);
+    if (!EXTENSIONS[audio.contentType]) throw new TtsError(`Unsupported audio type ${audio.contentType}`);
+    await writeSpeech(id, audio);
+    await evictSpeech().catch((err) => console.warn("tts cache eviction failed", err));
+    return id;
+  })().finally(() => pending.delete(id));
+  pending.set(id, job);
+  return job;
+}
@@ -0,0 +1,138 @@
+// lib/ttsProviders.ts
+import { TtsRequest } from "./tts";
+
+/**
+ * Server-side speech backends for /api/tts.
+ *
+ * TTS_PROVIDER=http posts { text, voice, lang } to TTS_API_URL (with
+ * TTS_API_KEY as a bearer token) and expects audio back; any TTS service can
+ * sit behind a small adapter there. TTS_PROVIDER=local synthesizes a
+ * placeholder murmur offline, for development and demos. Without
+ * TTS_PROVIDER the http provider is used when TTS_API_URL is set, the local
+ * one otherwise.
+ */
+
+export type SpeechAudio = {
+  audio: Buffer;
+  contentType: string;
+};
+
+export interface TtsProvider {
+  name: string;
+  synthesize(input: TtsRequest): Promise<SpeechAudio>;
+}
+
+export class TtsError extends Error {
+  status: number;
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = "TtsError";
+    this.status = status;
+  }
+}
+
+/* ---------- local (offline stub) ---------- */
+
+const SAMPLE_RATE = 8000;
+const MAX_STUB_SECONDS = 90;
+
+// a stable pitch per voice id, so mascots still sound different
+function stubPitch(voice = ""): number {
+  let hash = 0;
+  for (const ch of voice) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return 140 + (hash % 160);
+}
+
+/** 8-bit mono PCM WAV around the samples. */
+function wav(samples: Uint8Array): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + samples.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE, 28); // byte rate
+  header.writeUInt16LE(1, 32); // block align
+  header.writeUInt16LE(8, 34); // bits per sample
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(samples.length, 40);
+  return Buffer.concat([header, Buffer.from(samples)]);
+}
+
+export const localTtsProvider: TtsProvider = {
+  name: "local",
+  async synthesize({ text, voice }) {
+    // one hummed burst per word, with pauses between words and sentences,
+    // so lip sync has something to follow
+    const pitch = stubPitch(voice);
+    const words = text.match(/\S+/g) ?? [];
+    const out: number[] = [];
+    const pause = (ms: number) => {
+      for (let i = 0; i < (ms / 1000) * SAMPLE_RATE; i++) out.push(128);
+    };
+    for (const word of words) {
+      if (out.length > MAX_STUB_SECONDS * SAMPLE_RATE) break;
+      const length = Math.round(((80 + word.length * 55) / 1000) * SAMPLE_RATE);
+      for (let i = 0; i < length; i++) {
+        const envelope = Math.sin((Math.PI * i) / length);
+        out.push(Math.round(128 + 60 * envelope * Math.sin((2 * Math.PI * pitch * i) / SAMPLE_RATE)));
+      }
+      pause(/[.!?]$/.test(word) ? 300 : 70);
+    }
+    pause(100);
+    return { audio: wav(Uint8Array.from(out)), contentType: "audio/wav" };
+  },
+};
+
+/* ---------- HTTP TTS service ---------- */
+
+const HTTP_TIMEOUT_MS = 15000;
+
+const AUDIO_TYPE_ALIASES: Record<string, string> = {
+  "audio/mp3": "audio/mpeg",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+};
+
+export const httpTtsProvider: TtsProvider = {
+  name: "http",
+  async synthesize({ text, voice, lang }) {
+    const url = process.env.TTS_API_URL;
+    if (!url) throw new TtsError("TTS service is not configured", 503);
+    const key = process.env.TTS_API_KEY;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(key ? { Authorization: `Bearer ${key}` } : {}),
+        },
+        body: JSON.stringify({ text, voice, lang }),
+        signal: controller.signal,
+      });
+      if (!res.ok) throw new TtsError(`TTS service error ${res.status}`);
+      const raw = res.headers.get("content-type")?.split(";")[0].trim().toLowerCase() ?? "";
+      const contentType = AUDIO_TYPE_ALIASES[raw] ?? raw;
+      if (!contentType.startsWith("audio/")) throw new TtsError("TTS service did not return audio");
+      return { audio: Buffer.from(await res.arrayBuffer()), contentType };
+    } catch (err) {
+      if (err instanceof TtsError) throw err;
+      throw new TtsError(controller.signal.aborted ? "TTS service timed out" : "TTS service unreachable", 504);
+    } finally {
+      clearTimeout(timer);
+    }
+  },
+};
+
+export function getTtsProvider(): TtsProvider {
+  const selected = process.env.TTS_PROVIDER;
+  if (selected === "local") return localTtsProvider;
+  if (selected === "http") return httpTtsProvider;
+  return process.env.TTS_API_URL ? httpTtsProvider : localTtsProvider;
+}
@@ -0,0 +1,181 @@
+// lib/voiceConversation.ts
+/**
+ * Hands-free voice conversation on top of the Web Speech API.
+ *
+ * While active, recognition runs continuously with interim results and is
+ * restarted whenever the browser ends it (Chrome stops after a stretch of
+ * silence). Interim text is reported as the shopper speaks, final text once a
+ * phrase is done; the widget sends finals as messages and uses interims for
+ * barge-in. Errors are reported as VoiceErrorCode; the fatal ones (no
+ * permission, no microphone, no network) end the conversation.
+ */
+
+export type VoiceErrorCode =
+  | "unsupported"
+  | "not-allowed"
+  | "no-speech"
+  | "audio-capture"
+  | "network"
+  | "unknown";
+
+export type VoiceHandlers = {
+  onInterim: (text: string) => void;
+  onFinal: (text: string) => void;
+  onError: (code: VoiceErrorCode) => void;
+  onActiveChange: (active: boolean) => void;
+};
+
+export type VoiceConversation = {
+  readonly supported: boolean;
+  start(): void;
+  stop(): void;
+  /** Make sure recognition is running again, e.g. after a reply was spoken. */
+  rearm(): void;
+  setLang(lang: string): void;
+  dispose(): void;
+};
+
+const FATAL_ERRORS: Partial<Record<string, VoiceErrorCode>> = {
+  "not-allowed": "not-allowed",
+  "service-not-allowed": "not-allowed",
+  "audio-capture": "audio-capture",
+  network: "network",
+};
+
+// restart delay after the browser ends a session, and the most restarts we
+// allow in RESTART_WINDOW_MS before assuming something is wrong
+const RESTART_DELAY_MS = 250;
+const MAX_RESTARTS = 8;
+const RESTART_WINDOW_MS = 10_000;
+
+export function createVoiceConversation(lang: string, handlers: VoiceHandlers): VoiceConversation {
+  const Recognition =
+    typeof window !== "undefined"
+      ? (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition
+      : undefined;
+  if (!Recognition) {
+    return {
+      supported: false,
+      start: () => handlers.onError("unsupported"),
+      stop() {},
+      rearm() {},
+      setLang() {},
+      dispose() {},
+    };
+  }
+
+  const rec = new Recognition();
+  rec.continuous = true;
+  rec.interimResults = true;
+  rec.lang = lang;
+
+  let active = false;
+  let running = false;
+  let restartTimer: ReturnType<typeof setTimeout> | undefined;
+  let restarts: number[] = [];
+
+  function run() {
+    if (!active || running) return;
+    try {
+      rec.start();
+      running = true;
+    } catch {
+      // already started: the browser is ahead of our bookkeeping
+      running = true;
+    }
+  }
+
+  function setActive(next: boolean) {
+    if (active === next) return;
+    active = next;
+    handlers.onActiveChange(next);
+  }
+
+  rec.onresult = (evt: any) => {
+    let interim = "";
+    for (let i = evt.resultIndex; i < evt.results.length; i++) {
+      const result = evt.results[i];
+      const text: string = result[0].transcript;
+      if (result.isFinal) {
+        handlers.onInterim("");
+        if (text.trim()) handlers.onFinal(text.trim());
+      } else {
+        interim += text;
+      }
+    }
+    if (interim) handlers.onInterim(interim);
+  };
+
+  rec.onerror = (evt: any) => {
+    if (evt.error === "aborted") return;
+    const fatal = FATAL_ERRORS[evt.error];
+    if (fatal) {
+      setActive(false);
+      handlers.onError(fatal);
+    } else {
+      handlers.onError(evt.error === "no-speech" ? "no-speech" : "unknown");
+    }
+  };
+
+  rec.onend = () => {
+    running = false;
+    if (!active) return;
+    const now = Date.now();
+    restarts = restarts.filter((t) => now - t < RESTART_WINDOW_MS);
+    if (restarts.length >= MAX_RESTARTS) {
+      setActive(false);
+      handlers.onError("unknown");
+      return;
+    }
+    restarts.push(now);
+    restartTimer = setTimeout(run, RESTART_DELAY_MS);
+  };
+
+  function stop() {
+    clearTimeout(restartTimer);
+    setActive(false);
+    handlers.onInterim("");
+    try {
+      rec.stop();
+    } catch {}
+  }
+
+  return {
+    supported: true,
+    start() {
+      restarts = [];
+      setActive(true);
+      run();
+    },
+    stop,
+    rearm() {
+      if (active && !running) {
+        clearTimeout(restartTimer);
+        run();
+      }
+    },
+    setLang(next) {
+      rec.lang = next;
+      // the new language applies from the next session
+      if (running) {
+        try {
+          rec.stop();
+        } catch {}
+      }
+    },
+    dispose() {
+      stop();
+      rec.onresult = rec.onerror = rec.onend = null;
+    },
+  };
+}
+
+/**
+ * Whether what the microphone heard is just the assistant's own reply coming
+ * back through the speakers, rather than the shopper talking over it.
+ */
+export function isEcho(heard: string, spoken: string): boolean {
+  const norm = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, "").replace(/\s+/g, " ").trim();
+  const h = norm(heard);
+  return h !== "" && norm(spoken).includes(h);
+}
@@ -0,0 +1,102 @@
+// lib/widgetConfig.ts
+import { CHAT_ENDPOINT } from "./chat";
+import type { AnalyticsEvent } from "./analytics";
+import type { WidgetThemeConfig } from "./theme";
+import type { EngagementRule } from "./engagement";
+
+/**
+ * Host-supplied widget configuration.
+ *
+ * Inside this Next.js app every field can be left out (env vars and
+ * same-origin routes are used). The embed script fills it from the
+ * `data-*` attributes of its <script> tag.
+ */
+
+export type WidgetPosition = "bottom-right" | "bottom-left" | "top-right" | "top-left";
+
+const POSITIONS: WidgetPosition[] = ["bottom-right", "bottom-left", "top-right", "top-left"];
+
+export type AvatarWidgetConfig = {
+  shop?: string;
+  /** Chat endpoint; other routes (cart, ...) are resolved next to it. */
+  apiEndpoint?: string;
+  defaultMascotId?: string;
+  position?: WidgetPosition;
+  /** Minutes of inactivity after which a stored conversation is discarded. */
+  sessionIdleMinutes?: number;
+  /** URL of a mascot manifest (lib/mascots.ts); the bundled one is used otherwise. */
+  mascotManifestUrl?: string;
+  /** Shop locale (e.g. "fr" or "fr-CA"); the browser language is used otherwise. */
+  locale?: string;
+  /** Called with every analytics event (lib/analytics.ts). */
+  onEvent?: (event: AnalyticsEvent) => void;
+  /** false stops sending analytics to /api/events; host listeners still get events. */
+  analytics?: boolean;
+  /** Merchant opt-in: include message text in analytics events. */
+  analyticsIncludeText?: boolean;
+  /** Theme preset and overrides (lib/theme.ts). */
+  theme?: WidgetThemeConfig;
+  /** Mascots the shopper can pick from; every mascot in the manifest when unset. */
+  mascotIds?: string[];
+  /** Replaces the mascot's own greeting in an empty conversation. */
+  greeting?: string;
+  /** false hides the Speak button (no speech recognition). */
+  voiceInput?: boolean;
+  /** false hides the photo buttons (no image attachments, lib/attachments.ts). */
+  imageInput?: boolean;
+  /** false never speaks replies aloud. */
+  voiceOutput?: boolean;
+  /** Speak replies with audio from /api/tts (lib/tts.ts) instead of browser TTS. */
+  serverTts?: boolean;
+  /** Offer "talk to a person" and follow backend handoffs to an agent (lib/handoff.ts). */
+  handoff?: boolean;
+  /** Answer from a local mock scenario instead of the chat backend. */
+  mockMode?: boolean;
+  mockScenario?: string;
+  /** Host-page elements the mascot must not walk over, e.g. ".checkout-button" (lib/choreography.ts). */
+  avoidSelector?: string;
+  /** Proactive engagement rules (lib/engagement.ts); none by default. */
+  engagementRules?: EngagementRule[];
+  /** false skips loading the shop's saved config (lib/shopConfig.ts), e.g. in the admin preview. */
+  remoteConfig?: boolean;
+};
+
+export const DEFAULT_POSITION: WidgetPosition = "bottom-right";
+
+export function parsePosition(value: string | null | undefined): WidgetPosition {
+  return POSITIONS.includes(value as WidgetPosition) ? (value as WidgetPosition) : DEFAULT_POSITION;
+}
+
+/**
+ * Resolve one of our API routes (e.g. "/api/shopify-add-to-cart") against the
+ * configured chat endpoint, so an embed served from another origin still hits
+ * this deployment.
+ */
+export function resolveApiUrl(path: string, apiEndpoint?: string): string {
+  if (!apiEndpoint || apiEndpoint === CHAT_ENDPOINT) return path;
+  try {
+    return new URL(path, apiEndpoint).toString();
+  } catch {
+    return path;
+  }
+}
+
+export function isLeft(position: WidgetPosition): boolean {
+  return position === "bottom-left" || position === "top-left";
+}
+
+export function isTop(position: WidgetPosition): boolean {
+  return position === "top-left" || position === "top-right";
+}
+
+type Offset = number | string;
+
+/** Horizontal anchor for fixed-position elements, e.g. { right: 28 } or { left: 28 }. */
+export function cornerOffset(position: WidgetPosition, offset: Offset): { left?: Offset; right?: Offset } {
+  return isLeft(position) ? { left: offset } : { right: offset };
+}
+
+/** Vertical anchor for fixed-position elements, e.g. { bottom: 24 } or { top: 24 }. */
+export function edgeOffset(position: WidgetPosition, offset: Offset): { top?: Offset; bottom?: Offset } {
+  return isTop(position) ? { top: offset } : { bottom: offset };
+}
@@ -0,0 +1,424 @@
+// pages/admin/index.tsx
+import dynamic from 'next/dynamic';
+import Head from 'next/head';
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { getBundledManifest } from '../../lib/mascots';
+import { DEFAULT_MOCK_SCENARIO, MOCK_SCENARIOS } from '../../lib/mockBackend';
+import {
+  MAX_GREETING_LENGTH,
+  MAX_PERSONA_LENGTH,
+  SHOP_CONFIG_ENDPOINT,
+  ShopConfig,
+  shopConfigToWidgetConfig,
+} from '../../lib/shopConfig';
+import { ColorScheme, DEFAULT_THEME, THEME_PRESETS } from '../../lib/theme';
+
+// dynamic import to avoid SSR issues with client widget
+const AvatarWidget = dynamic(() => import('../../components/AvatarWidget'), { ssr: false });
+
+/**
+ * Merchant settings for the widget, saved per shop through
+ * /api/widget-config. The admin token (ADMIN_TOKEN) is kept in
+ * sessionStorage for this tab only. The widget in the corner is a live
+ * preview of the unsaved draft.
+ */
+
+const TOKEN_KEY = 'academic-avatar-admin-token';
+const MASCOTS = getBundledManifest().manifest.mascots;
+
+const RULES_EXAMPLE = `[
+  {
+    "id": "product-30s",
+    "trigger": { "type": "time_on_page", "seconds": 30 },
+    "pageTypes": ["product"],
+    "action": "greet",
+    "message": "Questions about sizing? Ask me!"
+  }
+]`;
+
+const fieldStyle = { display: 'block', width: '100%', marginTop: 4, padding: '6px 8px', fontSize: 14 };
+const sectionStyle = { border: '1px solid #e5e7eb', borderRadius: 8, padding: 16, marginBottom: 16 };
+
+export default function Admin() {
+  const [token, setToken] = useState('');
+  const [shop, setShop] = useState(process.env.NEXT_PUBLIC_SHOP ?? '');
+  const [draft, setDraft] = useState<ShopConfig | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  // engagement rules are edited as JSON; the draft only takes text that parses
+  const [rulesText, setRulesText] = useState('');
+  const [rulesError, setRulesError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_KEY) ?? '');
+  }, []);
+
+  const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  const configUrl = `${SHOP_CONFIG_ENDPOINT}?shop=${encodeURIComponent(shop)}`;
+
+  async function load(e: FormEvent) {
+    e.preventDefault();
+    setStatus(null);
+    setIssues([]);
+    const res = await fetch(configUrl, { headers }).catch(() => null);
+    if (!res) return setStatus('Could not reach the server.');
+    if (res.status === 401) return setStatus('Wrong admin token.');
+    if (!res.ok) return setStatus(`Could not load settings (HTTP ${res.status}).`);
+    sessionStorage.setItem(TOKEN_KEY, token);
+    const config: ShopConfig = (await res.json()).config ?? {};
+    setDraft(config);
+    setRulesText(config.engagement?.length ? JSON.stringify(config.engagement, null, 2) : '');
+    setRulesError(null);
+  }
+
+  async function save() {
+    if (!draft) return;
+    setSaving(true);
+    setStatus(null);
+    try {
+      const res = await fetch(SHOP_CONFIG_ENDPOINT, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ shop, config: draft }),
+      });
+      const body = await res.json().catch(() => ({}));
+      setIssues(body.issues ?? []);
+      if (!res.ok) return setStatus(body.error ?? `Could not save (HTTP ${res.status}).`);
+      setDraft(body.config);
+      setStatus('Saved. Storefronts pick it up within a minute.');
+    } catch {
+      setStatus('Could not reach the server.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function updateRules(text: string) {
+    setRulesText(text);
+    try {
+      const rules = text.trim() ? JSON.parse(text) : [];
+      if (!Array.isArray(rules)) throw new Error('Rules must be a JSON list.');
+      setRulesError(null);
+      update({ engagement: rules });
+    } catch (err) {
+      setRulesError(err instanceof Error ? err.message : 'Invalid JSON');
+    }
+  }
+
+  function update(patch: Partial<ShopConfig>) {
+    setDraft((d) => ({ ...d, ...patch }));
+  }
+
+  function updateTheme(patch: NonNullable<ShopConfig['theme']>) {
+    setDraft((d) => ({ ...d, theme: { ...d?.theme, ...patch } }));
+  }
+
+  function toggleMascot(id: string, on: boolean) {
+    const current = draft?.mascotIds?.length ? draft.mascotIds : MASCOTS.map((m) => m.id);
+    const next = on ? [...current, id] : current.filter((m) => m !== id);
+    // an empty list means every mascot, so keep at least one
+    if (next.length) update({ mascotIds: MASCOTS.map((m) => m.id).filter((m) => next.includes(m)) });
+  }
+
+  const preview = useMemo(() => (draft ? shopConfigToWidgetConfig(draft) : null), [draft]);
+  // settings the widget only reads when it mounts restart the preview
+  const previewKey = draft ? [draft.defaultMascotId, draft.mockMode, draft.mockScenario].join('|') : '';
+  const offered = draft?.mascotIds?.length ? MASCOTS.filter((m) => draft.mascotIds!.includes(m.id)) : MASCOTS;
+  const primary = draft?.theme?.colors?.primary ?? '';
+
+  return (
+    <>
+      <Head>
+        <title>Shop Assistant settings</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="robots" content="noindex" />
+      </Head>
+      <main style={{ padding: 40, maxWidth: 640, fontFamily: 'system-ui, sans-serif' }}>
+        <h1>Shop Assistant settings</h1>
+
+        <form onSubmit={load} style={sectionStyle}>
+          <label>
+            Shop domain
+            <input
+              value={shop}
+              onChange={(e) => setShop(e.target.value)}
+              placeholder="demo-shop.myshopify.com"
+              style={fieldStyle}
+            />
+          </label>
+          <label style={{ display: 'block', marginTop: 12 }}>
+            Admin token
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              autoComplete="current-password"
+              style={fieldStyle}
+            />
+          </label>
+          <button type="submit" style={{ marginTop: 12 }}>
+            {draft ? 'Reload' : 'Sign in'}
+          </button>
+        </form>
+
+        {status && <p role="status">{status}</p>}
+        {issues.length > 0 && (
+          <ul role="alert" style={{ color: '#b91c1c' }}>
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        )}
+
+        {draft && (
+          <>
+            <section style={sectionStyle}>
+              <h2>Mascots</h2>
+              {MASCOTS.map((m) => (
+                <label key={m.id} style={{ display: 'block' }}>
+                  <input
+                    type="checkbox"
+                    checked={offered.some((o) => o.id === m.id)}
+                    onChange={(e) => toggleMascot(m.id, e.target.checked)}
+                  />{' '}
+                  {m.title}
+                </label>
+              ))}
+              <label style={{ display: 'block', marginTop: 12 }}>
+                Default mascot
+                <select
+                  value={draft.defaultMascotId ?? ''}
+                  onChange={(e) => update({ defaultMascotId: e.target.value || undefined })}
+                  style={fieldStyle}
+                >
+                  <option value="">Manifest default</option>
+                  {offered.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.title}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </section>
+
+            <section style={sectionStyle}>
+              <h2>Conversation</h2>
+              <label>
+                Greeting (shown before the first message)
+                <textarea
+                  value={draft.greeting ?? ''}
+                  maxLength={MAX_GREETING_LENGTH}
+                  rows={2}
+                  onChange={(e) => update({ greeting: e.target.value })}
+                  style={fieldStyle}
+                />
+              </label>
+              <label style={{ display: 'block', marginTop: 12 }}>
+                Persona (instructions sent to the assistant, never shown to shoppers)
+                <textarea
+                  value={draft.persona ?? ''}
+                  maxLength={MAX_PERSONA_LENGTH}
+                  rows={4}
+                  onChange={(e) => update({ persona: e.target.value })}
+                  style={fieldStyle}
+                />
+              </label>
+            </section>
+
+            <section style={sectionStyle}>
+              <h2>Theme</h2>
+              <label>
+                Preset
+                <select
+                  value={draft.theme?.preset ?? 'default'}
+                  onChange={(e) => updateTheme({ preset: e.target.value })}
+                  style={fieldStyle}
+                >
+                  {Object.keys(THEME_PRESETS).map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label style={{ display: 'block', marginTop: 12 }}>
+                Color scheme
+                <select
+                  value={draft.theme?.colorScheme ?? ''}
+                  onChange={(e) => updateTheme({ colorScheme: (e.target.value as ColorScheme) || undefined })}
+                  style={fieldStyle}
+                >
+                  <option value="">Preset default</option>
+                  <option value="light">Light</option>
+                  <option value="dark">Dark</option>
+                  <option value="auto">Follow the shopper&apos;s device</option>
+                </select>
+              </label>
+              <label style={{ display: 'block', marginTop: 12 }}>
+                Brand color
+                <span style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                  <input
+                    type="color"
+                    value={/^#[0-9a-f]{6}$/i.test(primary) ? primary : '#6366f1'}
+                    onChange={(e) => updateTheme({ colors: { ...draft.theme?.colors, primary: e.target.value } })}
+                  />
+                  <input
+                    value={primary}
+                    placeholder="Preset color"
+                    onChange={(e) =>
+                      updateTheme({ colors: { ...draft.theme?.colors, primary: e.target.value || undefined } })
+                    }
+                    style={fieldStyle}
+                  />
+                </span>
+              </label>
+              <label style={{ display: 'block', marginTop: 12 }}>
+                Corner radius (px)
+                <input
+                  type="number"
+                  min={0}
+                  max={32}
+                  value={draft.theme?.radius ?? DEFAULT_THEME.radius}
+                  onChange={(e) => updateTheme({ radius: Number(e.target.value) })}
+                  style={fieldStyle}
+                />
+              </label>
+            </section>
+
+            <section style={sectionStyle}>
+              <h2>Mascot movement</h2>
+              <label>
+                Page elements the mascot must not walk over (CSS selector)
+                <input
+                  value={draft.avoidSelector ?? ''}
+                  placeholder=".cart__checkout-button, #newsletter-popup"
+                  onChange={(e) => update({ avoidSelector: e.target.value })}
+                  style={fieldStyle}
+                />
+              </label>
+            </section>
+
+            <section style={sectionStyle}>
+              <h2>Voice</h2>
+              <label style={{ display: 'block' }}>
+                <input
+                  type="checkbox"
+                  checked={draft.voiceInput ?? true}
+                  onChange={(e) => update({ voiceInput: e.target.checked })}
+                />{' '}
+                Shoppers can talk to the assistant
+              </label>
+              <label style={{ display: 'block' }}>
+                <input
+                  type="checkbox"
+                  checked={draft.imageInput ?? true}
+                  onChange={(e) => update({ imageInput: e.target.checked })}
+                />{' '}
+                Shoppers can send photos to find similar products
+              </label>
+              <label style={{ display: 'block' }}>
+                <input
+                  type="checkbox"
+                  checked={draft.voiceOutput ?? true}
+                  onChange={(e) => update({ voiceOutput: e.target.checked })}
+                />{' '}
+                Replies are spoken aloud
+              </label>
+              <label style={{ display: 'block' }}>
+                <input
+                  type="checkbox"
+                  checked={draft.serverTts ?? false}
+                  disabled={draft.voiceOutput === false}
+                  onChange={(e) => update({ serverTts: e.target.checked })}
+                />{' '}
+                Use server voices (/api/tts) instead of the browser&apos;s
+              </label>
+            </section>
+
+            <section style={sectionStyle}>
+              <h2>Human handoff</h2>
+              <label style={{ display: 'block' }}>
+                <input
+                  type="checkbox"
+                  checked={draft.handoff ?? false}
+                  onChange={(e) => update({ handoff: e.target.checked })}
+                />{' '}
+                Shoppers can ask for a person; agents answer from <a href="/agent">the agent console</a>
+              </label>
+            </section>
+
+            <section style={sectionStyle}>
+              <h2>Analytics</h2>
+              <label style={{ display: 'block' }}>
+                <input
+                  type="checkbox"
+                  checked={draft.analyticsIncludeText ?? false}
+                  onChange={(e) => update({ analyticsIncludeText: e.target.checked })}
+                />{' '}
+                Keep what shoppers and the assistant wrote in analytics events
+              </label>
+            </section>
+
+            <section style={sectionStyle}>
+              <h2>Mock mode</h2>
+              <label style={{ display: 'block' }}>
+                <input
+                  type="checkbox"
+                  checked={draft.mockMode ?? false}
+                  onChange={(e) => update({ mockMode: e.target.checked })}
+                />{' '}
+                Answer from a mock scenario instead of the chat backend
+              </label>
+              <label style={{ display: 'block', marginTop: 12 }}>
+                Scenario
+                <select
+                  value={draft.mockScenario ?? DEFAULT_MOCK_SCENARIO}
+                  disabled={!draft.mockMode}
+                  onChange={(e) => update({ mockScenario: e.target.value })}
+                  style={fieldStyle}
+                >
+                  {Object.keys(MOCK_SCENARIOS).map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </section>
+
+            <section style={sectionStyle}>
+              <h2>Proactive engagement</h2>
+              <p style={{ fontSize: 13, color: '#6b7280' }}>
+                Rules that let the mascot reach out: a trigger (time_on_page, scroll_depth, exit_intent or
+                idle_cart), optional pageTypes, and an action (walk_in, greet or open_chat). See
+                lib/engagement.ts for the format.
+              </p>
+              <textarea
+                value={rulesText}
+                rows={10}
+                spellCheck={false}
+                placeholder={RULES_EXAMPLE}
+                onChange={(e) => updateRules(e.target.value)}
+                aria-invalid={!!rulesError}
+                style={{ ...fieldStyle, fontFamily: 'ui-monospace, monospace', fontSize: 12 }}
+              />
+              {rulesError && <p style={{ color: '#b91c1c', fontSize: 13 }}>{rulesError}</p>}
+            </section>
+
+            <button onClick={save} disabled={saving || !!rulesError}>
+              {saving ? 'Saving…' : 'Save'}
+            </button>
+            {draft.updatedAt && (
+              <p style={{ color: '#6b7280', fontSize: 13 }}>Last saved {new Date(draft.updatedAt).toLocaleString()}</p>
+            )}
+
+            {preview && (
+              <AvatarWidget key={previewKey} shop={shop || undefined} remoteConfig={false} {...preview} />
+            )}
+          </>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,290 @@
+// pages/agent/index.tsx
+import Head from 'next/head';
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import {
+  HANDOFF_ENDPOINT,
+  HandoffTicket,
+  HandoffTicketSummary,
+  MAX_HANDOFF_MESSAGE_LENGTH,
+} from '../../lib/handoff';
+
+/**
+ * Minimal agent console for conversations the widget hands over to a
+ * person (lib/handoff.ts). Tickets come from the in-memory relay at
+ * /api/handoff; the agent token (HANDOFF_AGENT_TOKEN) is kept in
+ * sessionStorage for this tab only, the agent name in localStorage.
+ */
+
+const TOKEN_KEY = 'academic-avatar-agent-token';
+const NAME_KEY = 'academic-avatar-agent-name';
+const LIST_POLL_MS = 3000;
+const TICKET_POLL_MS = 1500;
+const TYPING_PING_MS = 2000;
+
+const fieldStyle = { display: 'block', width: '100%', marginTop: 4, padding: '6px 8px', fontSize: 14 };
+const sectionStyle = { border: '1px solid #e5e7eb', borderRadius: 8, padding: 16, marginBottom: 16 };
+const bubbleStyle = { padding: '6px 10px', borderRadius: 8, fontSize: 14, maxWidth: '80%' };
+
+function formatTime(at: number) {
+  return new Date(at).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+export default function AgentConsole() {
+  const [token, setToken] = useState('');
+  const [name, setName] = useState('');
+  const [signedIn, setSignedIn] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [tickets, setTickets] = useState<HandoffTicketSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [ticket, setTicket] = useState<HandoffTicket | null>(null);
+  const [reply, setReply] = useState('');
+  const typingSentRef = useRef(0);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_KEY) ?? '');
+    setName(localStorage.getItem(NAME_KEY) ?? '');
+  }, []);
+
+  const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+  async function api(init: RequestInit, query = '') {
+    const res = await fetch(`${HANDOFF_ENDPOINT}${query}`, { ...init, headers });
+    const body = await res.json().catch(() => ({}));
+    if (res.status === 401) {
+      setSignedIn(false);
+      throw new Error('Wrong agent token.');
+    }
+    if (!res.ok) throw new Error(body.error ?? `Request failed (HTTP ${res.status}).`);
+    return body;
+  }
+  // polling effects call the latest api, with the current token
+  const apiRef = useRef(api);
+  apiRef.current = api;
+
+  async function signIn(e: FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return setStatus('Enter the name shoppers will see.');
+    try {
+      const body = await api({ method: 'GET' });
+      sessionStorage.setItem(TOKEN_KEY, token);
+      localStorage.setItem(NAME_KEY, name.trim());
+      setTickets(body.tickets);
+      setSignedIn(true);
+      setStatus(null);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Could not reach the server.');
+    }
+  }
+
+  /* Ticket list */
+  useEffect(() => {
+    if (!signedIn) return;
+    const timer = setInterval(() => {
+      apiRef.current({ method: 'GET' })
+        .then((body) => setTickets(body.tickets))
+        .catch(() => {});
+    }, LIST_POLL_MS);
+    return () => clearInterval(timer);
+  }, [signedIn]);
+
+  /* The open ticket */
+  useEffect(() => {
+    if (!signedIn || !selectedId) {
+      setTicket(null);
+      return;
+    }
+    let cancelled = false;
+    const load = () =>
+      apiRef.current({ method: 'GET' }, `?ticket=${encodeURIComponent(selectedId)}`)
+        .then((body) => {
+          if (!cancelled) setTicket(body.ticket);
+        })
+        .catch((err) => {
+          if (!cancelled) setStatus(err.message);
+        });
+    load();
+    const timer = setInterval(load, TICKET_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [signedIn, selectedId]);
+
+  async function act(action: string, extra: Record<string, unknown> = {}): Promise<boolean> {
+    if (!ticket) return false;
+    try {
+      await api({ method: 'POST', body: JSON.stringify({ action, ticketId: ticket.id, ...extra }) });
+      const body = await api({ method: 'GET' }, `?ticket=${encodeURIComponent(ticket.id)}`);
+      setTicket(body.ticket);
+      setStatus(null);
+      return true;
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Could not reach the server.');
+      return false;
+    }
+  }
+
+  async function send(e: FormEvent) {
+    e.preventDefault();
+    const text = reply.trim();
+    if (!text || !ticket) return;
+    // replying takes the ticket
+    if (ticket.agentName !== name.trim() && !(await act('claim', { agentName: name.trim() }))) return;
+    if (await act('send', { text })) setReply('');
+  }
+
+  function typing(text: string) {
+    setReply(text);
+    if (!ticket || ticket.status !== 'active' || Date.now() - typingSentRef.current < TYPING_PING_MS) return;
+    typingSentRef.current = Date.now();
+    api({ method: 'POST', body: JSON.stringify({ action: 'typing', ticketId: ticket.id }) }).catch(() => {});
+  }
+
+  const open = ticket && ticket.status !== 'closed';
+
+  return (
+    <>
+      <Head>
+        <title>Shop Assistant agent console</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="robots" content="noindex" />
+      </Head>
+      <main style={{ padding: 40, maxWidth: 960, fontFamily: 'system-ui, sans-serif' }}>
+        <h1>Agent console</h1>
+
+        {!signedIn && (
+          <form onSubmit={signIn} style={{ ...sectionStyle, maxWidth: 480 }}>
+            <label>
+              Your name (shown to shoppers)
+              <input value={name} onChange={(e) => setName(e.target.value)} style={fieldStyle} />
+            </label>
+            <label style={{ display: 'block', marginTop: 12 }}>
+              Agent token
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                autoComplete="current-password"
+                style={fieldStyle}
+              />
+            </label>
+            <button type="submit" style={{ marginTop: 12 }}>
+              Sign in
+            </button>
+          </form>
+        )}
+
+        {status && <p role="status">{status}</p>}
+
+        {signedIn && (
+          <div style={{ display: 'flex', gap: 16, alignItems: 'flex-start' }}>
+            <section style={{ ...sectionStyle, width: 300, flexShrink: 0 }}>
+              <h2 style={{ marginTop: 0 }}>Tickets</h2>
+              {tickets.length === 0 && <p style={{ color: '#6b7280' }}>No one is waiting.</p>}
+              {tickets.map((t) => (
+                <button
+                  key={t.id}
+                  onClick={() => setSelectedId(t.id)}
+                  aria-current={t.id === selectedId}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    textAlign: 'left',
+                    marginBottom: 8,
+                    padding: 8,
+                    borderRadius: 6,
+                    border: t.id === selectedId ? '2px solid #4f46e5' : '1px solid #e5e7eb',
+                    background: t.status === 'closed' ? '#f9fafb' : '#fff',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <strong style={{ fontSize: 13 }}>
+                    {t.status === 'waiting' ? 'Waiting' : t.status === 'active' ? `With ${t.agentName}` : 'Closed'}
+                  </strong>{' '}
+                  <span style={{ fontSize: 12, color: '#6b7280' }}>
+                    {t.shop ?? 'default shop'} · {formatTime(t.createdAt)}
+                    {t.trigger === 'assistant' ? ' · sent by the assistant' : ''}
+                  </span>
+                  {t.preview && <div style={{ fontSize: 13, marginTop: 4, color: '#374151' }}>{t.preview}</div>}
+                </button>
+              ))}
+            </section>
+
+            <section style={{ ...sectionStyle, flex: 1, minWidth: 0 }}>
+              {!ticket && <p style={{ color: '#6b7280' }}>Pick a ticket to see the conversation.</p>}
+              {ticket && (
+                <>
+                  <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 12 }}>
+                    <h2 style={{ margin: 0, flex: 1, fontSize: 18 }}>
+                      {ticket.shop ?? 'default shop'}
+                      {ticket.locale ? ` (${ticket.locale})` : ''}
+                    </h2>
+                    {open && ticket.agentName !== name.trim() && (
+                      <button onClick={() => act('claim', { agentName: name.trim() })}>Take ticket</button>
+                    )}
+                    {open && <button onClick={() => act('close')}>Close ticket</button>}
+                  </div>
+
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 6, maxHeight: 480, overflowY: 'auto' }}>
+                    {ticket.transcript.map((m, i) => (
+                      <div
+                        key={`t-${i}`}
+                        style={{
+                          ...bubbleStyle,
+                          alignSelf: m.role === 'user' ? 'flex-start' : 'flex-end',
+                          background: '#f3f4f6',
+                          color: '#6b7280',
+                        }}
+                      >
+                        <small>{m.role === 'user' ? 'Shopper' : 'Assistant'}</small>
+                        <div>{m.content}</div>
+                      </div>
+                    ))}
+                    {ticket.transcript.length > 0 && (
+                      <hr style={{ width: '100%', border: 0, borderTop: '1px dashed #d1d5db' }} />
+                    )}
+                    {ticket.messages.map((m) => (
+                      <div
+                        key={m.id}
+                        style={{
+                          ...bubbleStyle,
+                          alignSelf: m.from === 'shopper' ? 'flex-start' : 'flex-end',
+                          background: m.from === 'shopper' ? '#eef2ff' : '#dcfce7',
+                        }}
+                      >
+                        <small>
+                          {m.from === 'shopper' ? 'Shopper' : m.agentName} · {formatTime(m.at)}
+                        </small>
+                        <div>{m.text}</div>
+                      </div>
+                    ))}
+                    {ticket.shopperTyping && <div style={{ fontSize: 12, color: '#6b7280' }}>Shopper is typing…</div>}
+                    {ticket.status === 'closed' && (
+                      <p style={{ color: '#6b7280' }}>
+                        Closed by {ticket.closedBy === 'shopper' ? 'the shopper' : ticket.agentName ?? 'an agent'}.
+                      </p>
+                    )}
+                  </div>
+
+                  {open && (
+                    <form onSubmit={send} style={{ display: 'flex', gap: 8, marginTop: 12 }}>
+                      <input
+                        value={reply}
+                        onChange={(e) => typing(e.target.value)}
+                        maxLength={MAX_HANDOFF_MESSAGE_LENGTH}
+                        placeholder="Reply to the shopper"
+                        aria-label="Reply"
+                        style={{ ...fieldStyle, marginTop: 0, flex: 1 }}
+                      />
+                      <button type="submit">Send</button>
+                    </form>
+                  )}
+                </>
+              )}
+            </section>
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
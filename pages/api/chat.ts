@@ -0,0 +1,195 @@
+// pages/api/chat.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { validateAttachments } from '../../lib/attachments';
+import { ChatMessage, ChatResponse, normalizeChatResponse } from '../../lib/chat';
+import { encodeSSE } from '../../lib/chatStream';
+import { applyCors } from '../../lib/cors';
+import type { Cart } from '../../lib/cart';
+import { sanitizePageContext } from '../../lib/pageContext';
+import { getShopConfig } from '../../lib/shopConfigStore';
+
+/**
+ * Same-origin proxy to the chat backend.
+ *
+ * The backend URL and API key live in server-only env vars (CHAT_API_URL,
+ * CHAT_API_KEY) so they never reach the browser bundle. CHAT_API_URL is the
+ * full endpoint, e.g. https://your-backend.up.railway.app/v1/chat.
+ *
+ * With `stream: true` in the body the reply is sent as server-sent events
+ * (see lib/chatStream.ts), whatever format the backend answers in.
+ *
+ * Backend 401, 403 and 429 answers (with their Retry-After) are passed
+ * through so the widget can tell them apart; other failures become 502.
+ *
+ * The persona saved for the shop on the admin page is added as `persona`.
+ *
+ * Image `attachments` (lib/attachments.ts) are checked for count, size and
+ * type and forwarded as they are; a message may then have no text.
+ */
+
+const UPSTREAM_TIMEOUT_MS = Number(process.env.CHAT_API_TIMEOUT_MS) || 15000;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_HISTORY_ENTRIES = 30;
+const MAX_SESSION_ID_LENGTH = 100;
+// backend answers the widget handles itself (lib/chatClient.ts error kinds);
+// anything else becomes a 502
+const PASSTHROUGH_STATUSES = [401, 403, 429];
+
+export const config = {
+  // at least MAX_CHAT_REQUEST_BYTES (lib/attachments.ts); Next only reads literals here
+  api: { bodyParser: { sizeLimit: '4200kb' } },
+};
+
+type ErrorBody = { error: string; code?: string };
+
+function sanitizeHistory(history: unknown): ChatMessage[] {
+  if (!Array.isArray(history)) return [];
+  return history
+    .filter((m) => m && typeof m.role === 'string' && typeof m.content === 'string')
+    .slice(-MAX_HISTORY_ENTRIES)
+    .map((m) => ({ role: m.role, content: m.content.slice(0, MAX_MESSAGE_LENGTH) }));
+}
+
+function sanitizeCart(cart: unknown): Cart | undefined {
+  const c = cart as Cart;
+  if (!c || typeof c.id !== 'string' || !Array.isArray(c.lines)) return undefined;
+  const lines = c.lines
+    .filter((l) => l && (typeof l.variant_id === 'string' || typeof l.variant_id === 'number'))
+    .slice(0, 50)
+    .map((l) => ({
+      variant_id: l.variant_id,
+      quantity: Number(l.quantity) || 0,
+      title: typeof l.title === 'string' ? l.title : undefined,
+      price: typeof l.price === 'string' ? l.price : undefined,
+    }));
+  return { id: c.id, lines, total_quantity: lines.reduce((n, l) => n + l.quantity, 0) };
+}
+
+/** Re-emit an upstream body (SSE, chunked text or JSON) as our SSE protocol. */
+async function pipeAsSSE(upstream: Response, res: NextApiResponse) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+
+  const contentType = upstream.headers.get('content-type') || '';
+  if (contentType.includes('application/json') || !upstream.body) {
+    const reply = normalizeChatResponse(await upstream.json());
+    const { text, ...meta } = reply;
+    if (text) res.write(encodeSSE('token', { text }));
+    res.write(encodeSSE('done', meta));
+    return res.end();
+  }
+
+  const reader = upstream.body.getReader();
+  const decoder = new TextDecoder();
+  const passthrough = contentType.includes('text/event-stream');
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    const chunk = decoder.decode(value, { stream: true });
+    res.write(passthrough ? chunk : encodeSSE('token', { text: chunk }));
+  }
+  if (!passthrough) res.write(encodeSSE('done', {}));
+  res.end();
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ChatResponse | ErrorBody>
+) {
+  if (applyCors(req, res)) return;
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const upstreamUrl = process.env.CHAT_API_URL;
+  if (!upstreamUrl) {
+    return res.status(503).json({ error: 'Chat backend is not configured' });
+  }
+
+  const body = req.body ?? {};
+  const message = typeof body.message === 'string' ? body.message.trim() : '';
+  const attachments = validateAttachments(body.attachments);
+  if ('error' in attachments) {
+    return res.status(attachments.status).json({ error: attachments.error, code: attachments.code });
+  }
+  if (!message && !attachments.attachments.length) {
+    return res.status(400).json({ error: 'message is required', code: 'message_required' });
+  }
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return res.status(413).json({ error: 'message is too long', code: 'message_too_long' });
+  }
+  const stream = body.stream === true;
+  const shop = typeof body.shop === 'string' ? body.shop : process.env.NEXT_PUBLIC_SHOP;
+  const persona = (await getShopConfig(shop).catch(() => null))?.persona || undefined;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+  // stop the upstream call when the shopper cancels (new message, dialog closed)
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const upstream = await fetch(upstreamUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: stream ? 'text/event-stream, application/json' : 'application/json',
+        ...(process.env.CHAT_API_KEY ? { 'x-api-key': process.env.CHAT_API_KEY } : {}),
+      },
+      body: JSON.stringify({
+        shop,
+        message,
+        ...(attachments.attachments.length ? { attachments: attachments.attachments } : {}),
+        history: sanitizeHistory(body.history),
+        mascotId: typeof body.mascotId === 'string' ? body.mascotId : undefined,
+        sessionId:
+          typeof body.sessionId === 'string' ? body.sessionId.slice(0, MAX_SESSION_ID_LENGTH) : undefined,
+        locale: typeof body.locale === 'string' ? body.locale.slice(0, 16) : undefined,
+        cart: sanitizeCart(body.cart),
+        context: sanitizePageContext(body.context),
+        persona,
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal: controller.signal,
+    });
+    // the timeout covers waiting for the backend to answer, not the whole stream
+    clearTimeout(timer);
+
+    if (!upstream.ok) {
+      console.error('chat upstream error', upstream.status);
+      if (PASSTHROUGH_STATUSES.includes(upstream.status)) {
+        const retryAfter = upstream.headers.get('retry-after');
+        if (retryAfter) res.setHeader('Retry-After', retryAfter);
+        return res.status(upstream.status).json({
+          error: upstream.status === 429 ? 'Chat backend is rate limiting' : 'Chat backend refused the request',
+        });
+      }
+      return res.status(502).json({ error: `Chat backend error ${upstream.status}` });
+    }
+
+    if (stream) return await pipeAsSSE(upstream, res);
+
+    const json = await upstream.json();
+    return res.status(200).json(normalizeChatResponse(json));
+  } catch (err) {
+    if (res.headersSent) {
+      if (!res.writableEnded) {
+        res.write(encodeSSE('error', { error: 'Chat stream interrupted' }));
+        res.end();
+      }
+      return;
+    }
+    if (controller.signal.aborted) {
+      return res.status(504).json({ error: 'Chat backend timed out' });
+    }
+    console.error('chat proxy error', err);
+    return res.status(502).json({ error: 'Could not reach chat backend' });
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,106 @@
+// pages/api/events.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { applyCors } from '../../lib/cors';
+import { AnalyticsEvent } from '../../lib/analytics';
+import { listEvents, storeEvents, validateEvent } from '../../lib/eventStore';
+import { clientIp, createRateLimiter } from '../../lib/rateLimit';
+import { getShopConfig } from '../../lib/shopConfigStore';
+
+/**
+ * Widget analytics (lib/analytics.ts).
+ *
+ * POST { events: AnalyticsEvent[] } stores a batch; the widget beacons these
+ * as text/plain, so the body may arrive as a string. Invalid events are
+ * dropped and counted. Message text is stripped unless the event's shop has
+ * analyticsIncludeText set on the admin page, and each client IP may send
+ * EVENTS_RATE_LIMIT batches per minute (default 60).
+ *
+ * GET exports what is stored, as JSON or with ?format=ndjson, filtered by
+ * ?name=, ?since= (epoch ms) and ?shop=. It needs
+ * `Authorization: Bearer $EVENTS_EXPORT_TOKEN`; without a token configured
+ * export only works outside production.
+ */
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '64kb' } },
+};
+
+const MAX_BATCH = 50;
+
+const limitBatches = createRateLimiter({
+  limit: Number(process.env.EVENTS_RATE_LIMIT) || 60,
+  windowMs: 60 * 1000,
+});
+
+/* Shops in the batch that opted in to message text */
+async function shopsIncludingText(events: unknown[]): Promise<Set<unknown>> {
+  const shops = new Set(events.map((e) => (e as AnalyticsEvent | null)?.shop));
+  const included = new Set<unknown>();
+  for (const shop of Array.from(shops)) {
+    if ((await getShopConfig(shop).catch(() => null))?.analyticsIncludeText) included.add(shop);
+  }
+  return included;
+}
+
+function canExport(req: NextApiRequest): boolean {
+  const token = process.env.EVENTS_EXPORT_TOKEN;
+  if (!token) return process.env.NODE_ENV !== 'production';
+  return req.headers.authorization === `Bearer ${token}`;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (applyCors(req, res)) return;
+
+  if (req.method === 'GET') {
+    if (!canExport(req)) return res.status(403).json({ error: 'Export not allowed' });
+    const since = Number(req.query.since) || undefined;
+    const events = listEvents({
+      name: typeof req.query.name === 'string' ? req.query.name : undefined,
+      shop: typeof req.query.shop === 'string' ? req.query.shop : undefined,
+      since,
+    });
+    if (req.query.format === 'ndjson') {
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      return res.status(200).send(events.map((e) => JSON.stringify(e)).join('\n'));
+    }
+    return res.status(200).json({ events });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const retryAfterMs = limitBatches(clientIp(req));
+  if (retryAfterMs) {
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+    return res.status(429).json({ error: 'Too many event batches' });
+  }
+
+  let body = req.body;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return res.status(400).json({ error: 'Body must be JSON' });
+    }
+  }
+  if (!body || !Array.isArray(body.events)) {
+    return res.status(400).json({ error: 'events must be an array' });
+  }
+  if (body.events.length > MAX_BATCH) {
+    return res.status(413).json({ error: `At most ${MAX_BATCH} events per batch` });
+  }
+
+  const includeText = await shopsIncludingText(body.events);
+  const valid = body.events
+    .map((e: unknown) => validateEvent(e, { includeText: includeText.has((e as AnalyticsEvent | null)?.shop) }))
+    .filter((e: AnalyticsEvent | null): e is AnalyticsEvent => !!e);
+  try {
+    await storeEvents(valid);
+  } catch (err) {
+    console.error('event store error', err);
+    return res.status(500).json({ error: 'Could not store events' });
+  }
+  return res.status(202).json({ accepted: valid.length, rejected: body.events.length - valid.length });
+}
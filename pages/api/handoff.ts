@@ -0,0 +1,137 @@
+// pages/api/handoff.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { bearerMatches } from '../../lib/auth';
+import { applyCors } from '../../lib/cors';
+import type { ChatMessage } from '../../lib/chat';
+import { MAX_HANDOFF_MESSAGE_LENGTH } from '../../lib/handoff';
+import {
+  HandoffError,
+  claimTicket,
+  closeTicket,
+  getTicket,
+  listTickets,
+  openTicket,
+  postMessage,
+  setTyping,
+  ticketUpdate,
+} from '../../lib/handoffStore';
+
+/**
+ * Relay between a shopper in the widget and an agent in the console at
+ * /agent (lib/handoff.ts, lib/handoffStore.ts).
+ *
+ * Without an Authorization header this is the shopper's side: open a
+ * ticket, send, typing, leave, and GET ?ticket=&after= to poll.
+ *
+ * With `Authorization: Bearer $HANDOFF_AGENT_TOKEN` it is the agent's side:
+ * GET lists tickets, GET ?ticket= returns one with its transcript, and POST
+ * takes claim, send, typing and close. Without a token configured the agent
+ * side is closed, unless ALLOW_DEV_AUTH=true outside production.
+ */
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '64kb' } },
+};
+
+const MAX_TRANSCRIPT_ENTRIES = 30;
+const MAX_AGENT_NAME_LENGTH = 60;
+
+type Auth = 'agent' | 'shopper' | 'denied';
+
+function authenticate(req: NextApiRequest): Auth {
+  const header = req.headers.authorization;
+  if (!header) return 'shopper';
+  return bearerMatches(header, process.env.HANDOFF_AGENT_TOKEN) ? 'agent' : 'denied';
+}
+
+function sanitizeTranscript(transcript: unknown): ChatMessage[] {
+  if (!Array.isArray(transcript)) return [];
+  return transcript
+    .filter((m) => m && typeof m.role === 'string' && typeof m.content === 'string')
+    .slice(-MAX_TRANSCRIPT_ENTRIES)
+    .map((m) => ({ role: m.role, content: m.content.slice(0, MAX_HANDOFF_MESSAGE_LENGTH) }));
+}
+
+function messageText(body: any): string {
+  const text = typeof body.text === 'string' ? body.text.trim() : '';
+  if (!text) throw new HandoffError('text is required');
+  if (text.length > MAX_HANDOFF_MESSAGE_LENGTH) throw new HandoffError('text is too long', 413);
+  return text;
+}
+
+function shopperAction(body: any) {
+  switch (body.action) {
+    case 'start':
+      return {
+        status: 201,
+        body: {
+          ticket: openTicket({
+            shop: typeof body.shop === 'string' ? body.shop.slice(0, 255) : undefined,
+            sessionId: typeof body.sessionId === 'string' ? body.sessionId.slice(0, 100) : undefined,
+            locale: typeof body.locale === 'string' ? body.locale.slice(0, 16) : undefined,
+            trigger: body.trigger === 'assistant' ? 'assistant' : 'shopper',
+            transcript: sanitizeTranscript(body.transcript),
+          }),
+        },
+      };
+    case 'send':
+      return { status: 201, body: { message: postMessage(body.ticketId, 'shopper', messageText(body)) } };
+    case 'typing':
+      setTyping(body.ticketId, 'shopper');
+      return { status: 200, body: { ok: true } };
+    case 'leave':
+      return { status: 200, body: { ticket: closeTicket(body.ticketId, 'shopper') } };
+    default:
+      throw new HandoffError('Unknown action');
+  }
+}
+
+function agentAction(body: any) {
+  switch (body.action) {
+    case 'claim': {
+      const name = typeof body.agentName === 'string' ? body.agentName.trim().slice(0, MAX_AGENT_NAME_LENGTH) : '';
+      if (!name) throw new HandoffError('agentName is required');
+      return { status: 200, body: { ticket: claimTicket(body.ticketId, name) } };
+    }
+    case 'send':
+      return { status: 201, body: { message: postMessage(body.ticketId, 'agent', messageText(body)) } };
+    case 'typing':
+      setTyping(body.ticketId, 'agent');
+      return { status: 200, body: { ok: true } };
+    case 'close':
+      return { status: 200, body: { ticket: closeTicket(body.ticketId, 'agent') } };
+    default:
+      throw new HandoffError('Unknown action');
+  }
+}
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (applyCors(req, res)) return;
+
+  const auth = authenticate(req);
+  if (auth === 'denied') return res.status(401).json({ error: 'Invalid agent token' });
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    if (req.method === 'GET') {
+      const ticketId = req.query.ticket;
+      if (auth === 'agent') {
+        return res.status(200).json(ticketId ? { ticket: getTicket(ticketId) } : { tickets: listTickets() });
+      }
+      if (!ticketId) return res.status(400).json({ error: 'ticket is required' });
+      return res.status(200).json(ticketUpdate(ticketId, Number(req.query.after) || 0));
+    }
+
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'GET, POST');
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const result = auth === 'agent' ? agentAction(req.body ?? {}) : shopperAction(req.body ?? {});
+    return res.status(result.status).json(result.body);
+  } catch (err) {
+    if (err instanceof HandoffError) return res.status(err.status).json({ error: err.message });
+    console.error('handoff relay error', err);
+    return res.status(500).json({ error: 'Handoff relay error' });
+  }
+}
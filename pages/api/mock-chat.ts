@@ -0,0 +1,72 @@
+// pages/api/mock-chat.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { encodeSSE } from '../../lib/chatStream';
+import { MockResult, getMockScenario, runMockChat } from '../../lib/mockBackend';
+
+/**
+ * Local stand-in for the chat backend, answering from a scenario fixture
+ * (lib/mockBackend.ts). Point the proxy at it:
+ *
+ *   CHAT_API_URL=http://localhost:3000/api/mock-chat?scenario=errors
+ *
+ * The scenario comes from ?scenario=, then MOCK_SCENARIO, then "default".
+ * Streaming requests get the reply word by word as server-sent events.
+ */
+
+const TOKEN_DELAY_MS = 40;
+
+export const config = {
+  // requests may carry image attachments, like /api/chat
+  api: { bodyParser: { sizeLimit: '4200kb' } },
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const scenarioName =
+    (typeof req.query.scenario === 'string' && req.query.scenario) || process.env.MOCK_SCENARIO;
+  const scenario = getMockScenario(scenarioName);
+  const message = typeof req.body?.message === 'string' ? req.body.message : '';
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  let result: MockResult;
+  try {
+    const imageCount = Array.isArray(req.body?.attachments) ? req.body.attachments.length : 0;
+    result = await runMockChat(scenario, message, controller.signal, imageCount);
+  } catch {
+    return; // client went away during the simulated latency
+  }
+
+  let parsed: any = null;
+  try {
+    parsed = JSON.parse(result.body);
+  } catch {
+    // malformed on purpose: send it as-is below
+  }
+
+  if (req.body?.stream === true && result.status === 200 && typeof parsed?.text === 'string') {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    });
+    const { text, ...meta } = parsed;
+    for (const word of text.split(/(\s+)/).filter(Boolean)) {
+      if (controller.signal.aborted) return;
+      res.write(encodeSSE('token', { text: word }));
+      await new Promise((r) => setTimeout(r, TOKEN_DELAY_MS));
+    }
+    res.write(encodeSSE('done', meta));
+    return res.end();
+  }
+
+  for (const [name, value] of Object.entries(result.headers)) res.setHeader(name, value);
+  res.setHeader('X-Mock-Rule', result.rule ?? '');
+  res.status(result.status).send(result.body);
+}
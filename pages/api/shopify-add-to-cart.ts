@@ -0,0 +1,53 @@
+// pages/api/shopify-add-to-cart.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { Cart, MAX_LINE_QUANTITY } from '../../lib/cart';
+import { CartError, getCartProvider } from '../../lib/cartProviders';
+import { applyCors } from '../../lib/cors';
+
+/**
+ * Adds a product variant to the shopper's cart and returns the updated cart.
+ *
+ * Body: { variant_id, quantity?, cart_id?, title?, price? }. Omit cart_id to
+ * start a new cart; the returned cart.id should be sent with later calls.
+ */
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '4kb' } },
+};
+
+type ErrorBody = { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Cart | ErrorBody>) {
+  if (applyCors(req, res)) return;
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const body = req.body ?? {};
+  const variantId = body.variant_id;
+  if (!(typeof variantId === 'number' || (typeof variantId === 'string' && variantId !== ''))) {
+    return res.status(400).json({ error: 'variant_id is required' });
+  }
+  const quantity = body.quantity === undefined ? 1 : Number(body.quantity);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+    return res.status(400).json({ error: `quantity must be between 1 and ${MAX_LINE_QUANTITY}` });
+  }
+
+  try {
+    const cart = await getCartProvider().addLine({
+      variant_id: variantId,
+      quantity,
+      cart_id: typeof body.cart_id === 'string' && body.cart_id ? body.cart_id : undefined,
+      title: typeof body.title === 'string' ? body.title : undefined,
+      price: typeof body.price === 'string' ? body.price : undefined,
+    });
+    return res.status(200).json(cart);
+  } catch (err) {
+    if (err instanceof CartError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error('add to cart error', err);
+    return res.status(502).json({ error: 'Could not add to cart' });
+  }
+}
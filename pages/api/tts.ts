@@ -0,0 +1,83 @@
+// pages/api/tts.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { applyCors } from '../../lib/cors';
+import { clientIp, createRateLimiter } from '../../lib/rateLimit';
+import { MAX_TTS_TEXT_LENGTH, TTS_ENDPOINT, TtsResponse } from '../../lib/tts';
+import { TtsError, getTtsProvider } from '../../lib/ttsProviders';
+import { cachedSpeech, isSpeechId, readSpeech } from '../../lib/ttsCache';
+
+/**
+ * Reply audio through the configured TTS provider (lib/ttsProviders.ts).
+ *
+ * POST { text, voice?, lang? } synthesizes the text (or finds it in the
+ * cache) and returns { url }. GET ?id= serves the cached audio; ids are
+ * content hashes, so it can be cached forever.
+ *
+ * Synthesis costs provider credits and disk, so POSTs are limited per client
+ * IP to TTS_RATE_LIMIT per minute (default 20); the widget falls back to
+ * browser speech when it gets a 429.
+ */
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '8kb' } },
+};
+
+type ErrorBody = { error: string };
+
+const VOICE_PATTERN = /^[\w .:-]{1,100}$/;
+const LANG_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+const limitSynthesis = createRateLimiter({
+  limit: Number(process.env.TTS_RATE_LIMIT) || 20,
+  windowMs: 60 * 1000,
+});
+
+async function serveAudio(req: NextApiRequest, res: NextApiResponse) {
+  const id = req.query.id;
+  if (!isSpeechId(id)) return res.status(400).json({ error: 'Invalid audio id' });
+  const speech = await readSpeech(id);
+  if (!speech) return res.status(404).json({ error: 'Audio not found' });
+  res.setHeader('Content-Type', speech.contentType);
+  res.setHeader('Content-Length', String(speech.audio.length));
+  res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+  return res.status(200).send(speech.audio);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<TtsResponse | ErrorBody>) {
+  if (applyCors(req, res)) return;
+  if (req.method === 'GET') return serveAudio(req, res);
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const retryAfterMs = limitSynthesis(clientIp(req));
+  if (retryAfterMs) {
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+    return res.status(429).json({ error: 'Too many speech requests' });
+  }
+
+  const body = req.body ?? {};
+  const text = typeof body.text === 'string' ? body.text.trim() : '';
+  if (!text) return res.status(400).json({ error: 'text is required' });
+  if (text.length > MAX_TTS_TEXT_LENGTH) {
+    return res.status(413).json({ error: `text is limited to ${MAX_TTS_TEXT_LENGTH} characters` });
+  }
+  if (body.voice !== undefined && !(typeof body.voice === 'string' && VOICE_PATTERN.test(body.voice))) {
+    return res.status(400).json({ error: 'voice must be a voice id' });
+  }
+  if (body.lang !== undefined && !(typeof body.lang === 'string' && LANG_PATTERN.test(body.lang))) {
+    return res.status(400).json({ error: 'lang must be a language tag' });
+  }
+
+  try {
+    const id = await cachedSpeech(getTtsProvider(), { text, voice: body.voice, lang: body.lang });
+    return res.status(200).json({ url: `${TTS_ENDPOINT}?id=${id}` });
+  } catch (err) {
+    if (err instanceof TtsError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error('tts error', err);
+    return res.status(502).json({ error: 'Could not synthesize speech' });
+  }
+}
@@ -0,0 +1,65 @@
+// pages/api/widget-config.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { bearerMatches } from '../../lib/auth';
+import { applyCors } from '../../lib/cors';
+import { publicShopConfig, validateShopConfig } from '../../lib/shopConfig';
+import { getShopConfig, saveShopConfig } from '../../lib/shopConfigStore';
+
+/**
+ * Per-shop widget config (lib/shopConfig.ts).
+ *
+ * GET ?shop= returns { config } for the widget, without the persona. With
+ * `Authorization: Bearer $ADMIN_TOKEN` it returns the full config, and a
+ * wrong token is a 401 (the admin page uses this to check its password).
+ *
+ * PUT { shop, config } saves a config from the admin page; it needs the
+ * token. Without ADMIN_TOKEN configured the admin API is closed, unless
+ * ALLOW_DEV_AUTH=true outside production.
+ */
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '16kb' } },
+};
+
+type Auth = 'admin' | 'public' | 'denied';
+
+function authenticate(req: NextApiRequest): Auth {
+  const header = req.headers.authorization;
+  if (!header) return 'public';
+  return bearerMatches(header, process.env.ADMIN_TOKEN) ? 'admin' : 'denied';
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (applyCors(req, res)) return;
+
+  const auth = authenticate(req);
+  if (auth === 'denied') return res.status(401).json({ error: 'Invalid admin token' });
+
+  if (req.method === 'GET') {
+    const stored = (await getShopConfig(req.query.shop)) ?? {};
+    if (auth === 'admin') {
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(200).json({ config: stored });
+    }
+    res.setHeader('Cache-Control', 'public, max-age=60');
+    return res.status(200).json({ config: publicShopConfig(stored) });
+  }
+
+  if (req.method !== 'PUT') {
+    res.setHeader('Allow', 'GET, PUT');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (auth !== 'admin') return res.status(401).json({ error: 'Admin token required' });
+
+  const body = req.body ?? {};
+  const { value, issues } = validateShopConfig(body.config);
+  if (!value) return res.status(400).json({ error: 'Invalid config', issues });
+
+  try {
+    const saved = await saveShopConfig(body.shop, value);
+    return res.status(200).json({ config: saved, issues });
+  } catch (err) {
+    console.error('shop config store error', err);
+    return res.status(500).json({ error: 'Could not save config' });
+  }
+}
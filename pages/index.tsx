@@ -15,7 +15,7 @@ export default function Home() {
       <main>
         <div style={{ padding: 40 }}>
           <h1>Demo storefront page</h1>
-          <p>This page demonstrates the avatar widget. In a real Shopify theme you would inject the widget script instead.</p>
+          <p>This page demonstrates the avatar widget. In a real Shopify theme you would inject the widget script instead — see <a href="/embed-demo.html">the embed demo</a>.</p>
         </div>
         <AvatarWidget />
       </main>
@@ -0,0 +1,29 @@
+// scripts/build-embed.mjs
+// Bundles embed/index.tsx (React included) into public/embed/avatar-widget.js
+// so a theme can load the widget with a single <script> tag.
+import { build } from "esbuild";
+
+const publicEnv = Object.fromEntries(
+  Object.entries(process.env)
+    .filter(([key]) => key.startsWith("NEXT_PUBLIC_"))
+    .map(([key, value]) => [`process.env.${key}`, JSON.stringify(value)])
+);
+
+await build({
+  entryPoints: ["embed/index.tsx"],
+  outfile: "public/embed/avatar-widget.js",
+  bundle: true,
+  format: "iife",
+  platform: "browser",
+  target: ["es2019"],
+  jsx: "automatic",
+  minify: process.env.NODE_ENV !== "development",
+  sourcemap: true,
+  define: {
+    ...publicEnv,
+    "process.env.NODE_ENV": JSON.stringify(process.env.NODE_ENV || "production"),
+    // unset NEXT_PUBLIC_* vars read as undefined instead of throwing in the browser
+    "process.env": "{}",
+  },
+  logLevel: "info",
+});